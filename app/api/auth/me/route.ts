@@ -0,0 +1,45 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { parseUpiId } from "@/lib/upi";
+
+/** The signed-in user, or 401 when there is no session. */
+export async function GET() {
+    try {
+        const user = await getCurrentUser();
+        if (!user) return unauthorized();
+        return NextResponse.json(user);
+    } catch (error) {
+        console.error("Session lookup error:", error);
+        return NextResponse.json(
+            { error: "Failed to load the current user" },
+            { status: 500 }
+        );
+    }
+}
+
+/** Updates the signed-in user's `upiId`, which others' payment links pay into. */
+export async function PATCH(req: Request) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) return unauthorized();
+
+        const body = await req.json().catch(() => ({}));
+        const parsed = parseUpiId(body.upiId);
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const updated = await prisma.user.update({
+            where: { id: user.id },
+            data: { upiId: parsed.upiId },
+        });
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error("Profile update error:", error);
+        return NextResponse.json(
+            { error: "Failed to update your profile" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { getAuthProvider, userForIdentity } from "@/lib/currentUser";
+
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+        const password = typeof body.password === "string" ? body.password : "";
+
+        if (!email) {
+            return NextResponse.json({ error: "Email is required" }, { status: 400 });
+        }
+
+        const auth = await getAuthProvider();
+        const result = await auth.signIn(email, password);
+        if ("error" in result) {
+            return NextResponse.json({ error: result.error }, { status: 401 });
+        }
+
+        const session = await auth.getIdentity();
+        if (!session || session.authId !== result.identity.authId) {
+            return NextResponse.json({ error: "Failed to start a session" }, { status: 401 });
+        }
+        if (!session.emailConfirmed) {
+            return NextResponse.json({ error: "Confirm your email before signing in" }, { status: 403 });
+        }
+
+        const user = await userForIdentity(session);
+        if (!user) {
+            return NextResponse.json({ error: "This email belongs to another account" }, { status: 409 });
+        }
+        return NextResponse.json(user);
+    } catch (error) {
+        console.error("Sign-in error:", error);
+        return NextResponse.json(
+            { error: "Failed to sign in" },
+            { status: 500 }
+        );
+    }
+}
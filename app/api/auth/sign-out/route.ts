@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getAuthProvider } from "@/lib/currentUser";
+
+export async function POST() {
+    try {
+        await (await getAuthProvider()).signOut();
+        return NextResponse.json({ signedOut: true });
+    } catch (error) {
+        console.error("Sign-out error:", error);
+        return NextResponse.json(
+            { error: "Failed to sign out" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getAuthProvider, userForIdentity } from "@/lib/currentUser";
+
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const name = typeof body.name === "string" ? body.name.trim() : "";
+        const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+        const password = typeof body.password === "string" ? body.password : "";
+
+        if (!name || !email) {
+            return NextResponse.json({ error: "Name and email are required" }, { status: 400 });
+        }
+
+        const auth = await getAuthProvider();
+        const result = await auth.signUp(name, email, password);
+        if ("error" in result) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        // Only a confirmed session for the new identity gets a User; until then there's nothing to link
+        const session = await auth.getIdentity();
+        if (!session || session.authId !== result.identity.authId || !session.emailConfirmed) {
+            return NextResponse.json({ confirmEmail: true }, { status: 202 });
+        }
+
+        const user = await userForIdentity({ ...session, name });
+        if (!user) {
+            return NextResponse.json({ error: "An account with this email already exists" }, { status: 409 });
+        }
+        return NextResponse.json(user);
+    } catch (error) {
+        console.error("Sign-up error:", error);
+        return NextResponse.json(
+            { error: "Failed to sign up" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,298 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { departedMembers, forbidden, groupAccess } from "@/lib/groupAccess";
+import { canEditExpense } from "@/lib/roles";
+import { formatMoney, fromMinor, toMinor } from "@/lib/money";
+import { computeSplits, ItemizedInput, itemizedShares, itemizedTotal } from "@/lib/splits";
+import {
+  changesBalances,
+  departedMembersError,
+  describeExpenseChanges,
+  expenseUserIds,
+  FieldErrors,
+  itemizedExpenseData,
+  parseItemized,
+  parsePayers,
+  payerNames,
+  serializeExpense,
+  validateExpense,
+} from "@/lib/expenses";
+import { checkExpenseCurrency, expenseExchangeRate } from "@/lib/exchangeRates";
+import { resolveCategory } from "@/lib/groupCategories";
+
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ expenseId: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
+    const { expenseId } = await context.params;
+
+    const expense = await prisma.expense.findUnique({
+      where: { id: expenseId },
+      include: {
+        paidBy: true,
+        payers: { include: { user: true } },
+        splits: { include: { user: true } },
+        items: { include: { participants: { include: { user: true } } } },
+      },
+    });
+    if (!expense) {
+      return NextResponse.json({ error: "Expense not found" }, { status: 404 });
+    }
+
+    const access = await groupAccess(currentUser.id, expense.groupId);
+    if ("denied" in access) return access.denied;
+
+    // Per-person breakdown of an itemized receipt: item subtotal plus proportional extras
+    const names = new Map(expense.splits.map((s) => [s.userId, s.user.name]));
+    expense.items.forEach((item) => item.participants.forEach((p) => names.set(p.userId, p.user.name)));
+    const breakdown = expense.splitType === "ITEMIZED"
+      ? itemizedShares({
+        items: expense.items.map((item) => ({ ...item, userIds: item.participants.map((p) => p.userId) })),
+        taxAmount: expense.taxAmount,
+        serviceCharge: expense.serviceCharge,
+        tipAmount: expense.tipAmount,
+      }).map((share) => ({
+        userId: share.userId,
+        name: names.get(share.userId) ?? "Unknown",
+        subtotal: fromMinor(share.subtotal),
+        tax: fromMinor(share.tax),
+        serviceCharge: fromMinor(share.serviceCharge),
+        tip: fromMinor(share.tip),
+        total: fromMinor(share.total),
+      }))
+      : [];
+
+    return NextResponse.json({ ...serializeExpense(expense), breakdown });
+  } catch (error) {
+    console.error("Expense fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch expense" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ expenseId: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
+    const { expenseId } = await context.params;
+    const body = await req.json();
+
+    const existing = await prisma.expense.findUnique({
+      where: { id: expenseId },
+      include: { paidBy: true, payers: { include: { user: true } }, splits: true, group: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Expense not found" }, { status: 404 });
+    }
+
+    const access = await groupAccess(currentUser.id, existing.groupId, "addExpenses");
+    if ("denied" in access) return access.denied;
+    if (!canEditExpense(access.membership.role, currentUser.id, existing)) {
+      return forbidden("Only admins can change expenses other people paid for");
+    }
+    if (changesBalances(body, existing)) {
+      const departed = await departedMembers(existing.groupId, expenseUserIds(existing));
+      if (departed.length > 0) {
+        return NextResponse.json({ error: departedMembersError(departed.map((m) => m.user.name)) }, { status: 409 });
+      }
+    }
+
+    const description = typeof body.description === "string" ? body.description.trim() : existing.description;
+    let amount = body.amount !== undefined ? toMinor(body.amount) : existing.amount;
+    const currency = body.currency ?? existing.currency;
+    const splitType = body.splitType ?? existing.splitType;
+    const fieldErrors: FieldErrors = {};
+
+    const category = body.category !== undefined
+      ? await resolveCategory(existing.groupId, body.category)
+      : existing.category;
+    if (!category) {
+      fieldErrors.category = "Unknown category for this group";
+    }
+
+    const members = await prisma.groupMember.findMany({ where: { groupId: existing.groupId, leftAt: null } });
+    const memberIds = members.map((m) => m.userId);
+
+    if (currency !== existing.currency) {
+      const currencyError = await checkExpenseCurrency(currency, existing.groupId, existing.group.baseCurrency);
+      if (currencyError) {
+        fieldErrors.currency = currencyError;
+      }
+    }
+
+    // Splits are rebuilt whenever anything they depend on changes
+    const rebuildSplits = body.amount !== undefined || body.splitType !== undefined
+      || body.splits !== undefined || body.items !== undefined;
+    let itemized: ItemizedInput | undefined;
+    // An equal split keeps its participants unless new ones are listed
+    const splits = body.splits
+      ?? (splitType === "EQUAL" && existing.splitType === "EQUAL" ? existing.splits.map((s) => ({ userId: s.userId })) : []);
+
+    if (rebuildSplits && splitType === "ITEMIZED") {
+      const parsed = parseItemized(body);
+      if ("error" in parsed) {
+        fieldErrors.items = parsed.error;
+      } else {
+        itemized = parsed.itemized;
+        const total = itemizedTotal(itemized);
+        if (body.amount !== undefined && amount !== total) {
+          fieldErrors.amount = "amount must equal the items plus tax, service charge and tip";
+        }
+        amount = total;
+      }
+    } else if (rebuildSplits && splitType !== "EQUAL" && !Array.isArray(body.splits)) {
+      fieldErrors.splits = `splits are required to recalculate a ${splitType} expense`;
+    }
+
+    // Payers are rebuilt when they change or no longer add up to the amount
+    let payers: { userId: string; amount: number }[] | null = null;
+    let paidById = existing.paidById;
+    const payerChanged = body.payers !== undefined
+      || (body.paidById !== undefined && body.paidById !== existing.paidById);
+    if (payerChanged || amount !== existing.amount) {
+      const paid = parsePayers(body, amount, body.paidById ?? existing.paidById);
+      if (!payerChanged && existing.payers.length > 1) {
+        fieldErrors.payers = "payers are required to change the amount of an expense with several payers";
+      } else if ("error" in paid) {
+        fieldErrors[body.payers === undefined ? "paidById" : "payers"] = paid.error;
+      } else {
+        ({ payers, paidById } = paid);
+      }
+    }
+
+    Object.assign(fieldErrors, validateExpense({
+      description,
+      amount,
+      currency,
+      splitType,
+      memberIds,
+      ...(payers && (body.payers === undefined ? { paidById } : { payers })),
+      ...(rebuildSplits && { splits, itemized }),
+    }));
+    if (!category || Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json({ error: "Invalid expense", fieldErrors }, { status: 400 });
+    }
+
+    const computedSplits = rebuildSplits
+      ? computeSplits({ splitType, amount, memberIds, splits, itemized })
+      : null;
+    // A new currency gets the group's rate for the day the expense was added, fixed from now on
+    const exchangeRate = currency !== existing.currency
+      ? await expenseExchangeRate(existing.groupId, currency, existing.group.baseCurrency, existing.createdAt)
+      : existing.exchangeRate;
+
+    const expense = await prisma.$transaction(async (tx) => {
+      if (payers) {
+        await tx.expensePayer.deleteMany({ where: { expenseId } });
+      }
+      if (computedSplits) {
+        await tx.expenseSplit.deleteMany({ where: { expenseId } });
+        await tx.expenseItemParticipant.deleteMany({ where: { item: { expenseId } } });
+        await tx.expenseItem.deleteMany({ where: { expenseId } });
+      }
+
+      const updated = await tx.expense.update({
+        where: { id: expenseId },
+        data: {
+          description,
+          category,
+          amount,
+          currency,
+          exchangeRate,
+          paidById,
+          splitType,
+          ...(payers && { payers: { create: payers } }),
+          ...(computedSplits && { splits: { create: computedSplits } }),
+          ...(computedSplits && (itemized
+            ? itemizedExpenseData(itemized)
+            : { taxAmount: 0, serviceCharge: 0, tipAmount: 0 })),
+        },
+        include: { splits: true, paidBy: true, payers: { include: { user: true } } },
+      });
+
+      await tx.activityLog.create({
+        data: {
+          groupId: existing.groupId,
+          type: "EXPENSE_UPDATED",
+          message: `Expense "${existing.description}" updated: ${describeExpenseChanges(existing, updated)}`,
+        },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(serializeExpense(expense));
+  } catch (error) {
+    console.error("Expense update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update expense" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: Request,
+  context: { params: Promise<{ expenseId: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
+    const { expenseId } = await context.params;
+
+    const existing = await prisma.expense.findUnique({
+      where: { id: expenseId },
+      include: { paidBy: true, payers: { include: { user: true } }, splits: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Expense not found" }, { status: 404 });
+    }
+
+    const access = await groupAccess(currentUser.id, existing.groupId, "addExpenses");
+    if ("denied" in access) return access.denied;
+    if (!canEditExpense(access.membership.role, currentUser.id, existing)) {
+      return forbidden("Only admins can change expenses other people paid for");
+    }
+
+    const departed = await departedMembers(existing.groupId, expenseUserIds(existing));
+    if (departed.length > 0) {
+      return NextResponse.json({ error: departedMembersError(departed.map((m) => m.user.name)) }, { status: 409 });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.expenseSplit.deleteMany({ where: { expenseId } });
+      await tx.expensePayer.deleteMany({ where: { expenseId } });
+      await tx.expenseItemParticipant.deleteMany({ where: { item: { expenseId } } });
+      await tx.expenseItem.deleteMany({ where: { expenseId } });
+      await tx.expense.delete({ where: { id: expenseId } });
+
+      await tx.activityLog.create({
+        data: {
+          groupId: existing.groupId,
+          type: "EXPENSE_DELETED",
+          message: `Expense "${existing.description}" (${formatMoney(existing.amount, existing.currency)}, paid by ${payerNames(existing)}) was deleted`,
+        },
+      });
+    });
+
+    return NextResponse.json({ id: expenseId, deleted: true });
+  } catch (error) {
+    console.error("Expense delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete expense" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,49 +1,124 @@
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess, memberGroupsWhere } from "@/lib/groupAccess";
+import { formatMoney, fromMinor, toMinor } from "@/lib/money";
+import { computeSplits, ItemizedInput, itemizedTotal } from "@/lib/splits";
+import {
+  FieldErrors,
+  itemizedExpenseData,
+  parseItemized,
+  parsePayers,
+  payerNames,
+  serializeExpense,
+  validateExpense,
+} from "@/lib/expenses";
+import { checkExpenseCurrency, expenseExchangeRate } from "@/lib/exchangeRates";
+import { convertAtRate } from "@/lib/currency";
+import { DEFAULT_CATEGORY } from "@/lib/categories";
+import { resolveCategory } from "@/lib/groupCategories";
 
 export async function POST(req: Request) {
   try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
     const body = await req.json();
-    const { description, amount, paidById, groupId, splitType = "EQUAL", splits = [] } = body;
+    const { groupId, splitType = "EQUAL", splits = [] } = body;
+    const description = typeof body.description === "string" ? body.description.trim() : "";
+    let amount = toMinor(body.amount);
+    let itemized: ItemizedInput | undefined;
+    const fieldErrors: FieldErrors = {};
+
+    if (typeof groupId !== "string" || !groupId) {
+      return NextResponse.json({ error: "groupId is required" }, { status: 400 });
+    }
+    const access = await groupAccess(currentUser.id, groupId, "addExpenses");
+    if ("denied" in access) return access.denied;
 
-    let computedSplits: { userId: string; amount: number }[] = [];
+    const group = await prisma.group.findUniqueOrThrow({ where: { id: groupId } });
+    const members = await prisma.groupMember.findMany({ where: { groupId, leftAt: null } });
+    const memberIds = members.map((m) => m.userId);
 
-    if (splitType === "EQUAL") {
-      const members = await prisma.groupMember.findMany({ where: { groupId } });
-      if (members.length === 0) {
-        return NextResponse.json({ error: "Cannot add expense to an empty group" }, { status: 400 });
+    if (splitType === "ITEMIZED") {
+      const parsed = parseItemized(body);
+      if ("error" in parsed) {
+        fieldErrors.items = parsed.error;
+      } else {
+        itemized = parsed.itemized;
+        const total = itemizedTotal(itemized);
+        if (body.amount !== undefined && amount !== total) {
+          fieldErrors.amount = "amount must equal the items plus tax, service charge and tip";
+        }
+        amount = total;
       }
-      const splitAmount = amount / members.length;
-      computedSplits = members.map((m) => ({ userId: m.userId, amount: splitAmount }));
-    } else if (splitType === "EXACT") {
-      computedSplits = splits.map((s: { userId: string; amount: string | number }) => ({ userId: s.userId, amount: Number(s.amount) }));
-    } else if (splitType === "PERCENT") {
-      computedSplits = splits.map((s: { userId: string; percent: string | number }) => ({ userId: s.userId, amount: (Number(s.percent) / 100) * amount }));
     }
 
+    const currency = body.currency ?? group.baseCurrency;
+    const currencyError = await checkExpenseCurrency(currency, groupId, group.baseCurrency);
+    if (currencyError) {
+      fieldErrors.currency = currencyError;
+    }
+
+    const category = await resolveCategory(groupId, body.category ?? DEFAULT_CATEGORY);
+    if (!category) {
+      fieldErrors.category = "Unknown category for this group";
+    }
+
+    const paid = parsePayers(body, amount, body.paidById);
+    if ("error" in paid) {
+      fieldErrors[body.payers === undefined ? "paidById" : "payers"] = paid.error;
+    }
+    const payerCheck = "error" in paid ? {} : body.payers === undefined ? { paidById: paid.paidById } : { payers: paid.payers };
+
+    Object.assign(fieldErrors, validateExpense({
+      description,
+      amount,
+      currency,
+      splitType,
+      memberIds,
+      ...payerCheck,
+      splits,
+      itemized,
+    }));
+    if ("error" in paid || !category || Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json({ error: "Invalid expense", fieldErrors }, { status: 400 });
+    }
+    const { payers, paidById } = paid;
+
+    const computedSplits = computeSplits({ splitType, amount, memberIds, splits, itemized });
+    const exchangeRate = await expenseExchangeRate(groupId, currency, group.baseCurrency);
+
     const expense = await prisma.expense.create({
       data: {
         description,
+        category,
         amount,
+        currency,
+        exchangeRate,
         paidById,
         groupId,
         splitType,
+        payers: {
+          create: payers,
+        },
         splits: {
           create: computedSplits,
         },
+        ...(itemized && itemizedExpenseData(itemized)),
       },
-      include: { splits: true, paidBy: true },
+      include: { splits: true, paidBy: true, payers: { include: { user: true } } },
     });
 
     await prisma.activityLog.create({
       data: {
         groupId,
         type: "EXPENSE_ADDED",
-        message: `${expense.paidBy.name} added expense ₹${amount} for ${description}`,
+        message: `${payerNames(expense)} added expense ${formatMoney(amount, currency)} for ${description}`,
       }
     });
 
-    return NextResponse.json(expense);
+    return NextResponse.json(serializeExpense(expense));
   } catch (error) {
     console.error(error);
     return NextResponse.json(
@@ -53,14 +128,36 @@ export async function POST(req: Request) {
   }
 }
 
-export async function GET() {
+/** Expenses in the caller's groups, or in one of them with `?groupId=`. */
+export async function GET(req: Request) {
+  const currentUser = await getCurrentUser();
+  if (!currentUser) return unauthorized();
+
+  const groupId = new URL(req.url).searchParams.get("groupId");
+  if (groupId) {
+    const access = await groupAccess(currentUser.id, groupId);
+    if ("denied" in access) return access.denied;
+  }
+
   const expenses = await prisma.expense.findMany({
+    where: groupId ? { groupId } : { group: memberGroupsWhere(currentUser.id) },
     include: {
       paidBy: true,
+      payers: { include: { user: true } },
       group: true,
       splits: true,
     },
   });
 
-  return NextResponse.json(expenses);
-}
\ No newline at end of file
+  // Attach each expense's value in its group's base currency, at the rate it was saved with
+
+  return NextResponse.json(
+    expenses.map((expense) => ({
+      ...serializeExpense(expense),
+      baseCurrency: expense.group.baseCurrency,
+      baseAmount: fromMinor(expense.currency === expense.group.baseCurrency
+        ? expense.amount
+        : convertAtRate(expense.amount, expense.exchangeRate)),
+    }))
+  );
+}
@@ -0,0 +1,184 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { forbidden, groupAccess } from "@/lib/groupAccess";
+import { can, canChangeRole, canRemoveMember, isGroupRole } from "@/lib/roles";
+import { loadGroupLedger } from "@/lib/groupLedger";
+import { departureSettlements, parseDepartureOptions } from "@/lib/departures";
+import { formatMoney, fromMinor, toMinor } from "@/lib/money";
+
+/** Changes a member's role (`{ role }`); see canChangeRole for who may do what. */
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ memberId: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
+    const { memberId } = await context.params;
+    const body = await req.json().catch(() => ({}));
+
+    if (!isGroupRole(body.role)) {
+      return NextResponse.json({ error: "role must be OWNER, ADMIN, MEMBER or VIEWER" }, { status: 400 });
+    }
+
+    const existing = await prisma.groupMember.findUnique({
+      where: { id: memberId },
+      include: { user: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+    const access = await groupAccess(currentUser.id, existing.groupId, "manageMembers");
+    if ("denied" in access) return access.denied;
+
+    if (existing.role === body.role) {
+      return NextResponse.json({ error: `${existing.user.name} is already ${body.role.toLowerCase()}` }, { status: 409 });
+    }
+    if (!canChangeRole(access.membership.role, existing.role, body.role)) {
+      return forbidden(`Your role in this group can't make ${existing.user.name} ${body.role.toLowerCase()}`);
+    }
+
+    const member = await prisma.$transaction(async (tx) => {
+      const updated = await tx.groupMember.update({
+        where: { id: memberId },
+        data: { role: body.role },
+        include: { user: true },
+      });
+
+      await tx.activityLog.create({
+        data: {
+          groupId: updated.groupId,
+          type: "MEMBER_ROLE_CHANGED",
+          message: `${currentUser.name} made ${updated.user.name} ${updated.role.toLowerCase()}`,
+        },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(member);
+  } catch (error) {
+    console.error("Member role update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update member role" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Takes a member out of the group, or lets the caller leave it. Someone who
+ * isn't settled up can only go when an admin forces it (`{ force, reason,
+ * transferToUserId? }`): their balance is then written off across everyone who
+ * stays, or passed to the named member, through settlement rows noted as such.
+ * The membership row is kept with `leftAt` set, so past expenses and exports
+ * still show who they were.
+ */
+export async function DELETE(
+  req: Request,
+  context: { params: Promise<{ memberId: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
+    const { memberId } = await context.params;
+    const body = await req.json().catch(() => ({}));
+
+    const existing = await prisma.groupMember.findUnique({
+      where: { id: memberId },
+      include: { user: true },
+    });
+    if (!existing || existing.leftAt) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+    const access = await groupAccess(currentUser.id, existing.groupId);
+    if ("denied" in access) return access.denied;
+
+    const leaving = existing.userId === currentUser.id;
+    if (existing.role === "OWNER") {
+      return NextResponse.json({ error: "The owner can't leave or be removed from the group" }, { status: 409 });
+    }
+    if (!leaving && !canRemoveMember(access.membership.role, existing.role)) {
+      return forbidden(`Your role in this group can't remove ${existing.user.name}`);
+    }
+
+    const options = parseDepartureOptions(body);
+    if ("error" in options) {
+      return NextResponse.json({ error: options.error }, { status: 400 });
+    }
+    if (options.force && !can(access.membership.role, "manageMembers")) {
+      return forbidden("Only an admin can remove someone who isn't settled up");
+    }
+
+    const { currency, members, ledger } = await loadGroupLedger(existing.groupId);
+    const balance = toMinor(ledger.balances.find((b) => b.userId === existing.userId)?.balance ?? 0);
+    if (balance !== 0 && !options.force) {
+      const amount = formatMoney(Math.abs(balance), currency);
+      return NextResponse.json(
+        {
+          error: `${existing.user.name} ${balance > 0 ? "is owed" : "owes"} ${amount}. Settle up first, or have an admin force the removal`,
+          balance: fromMinor(balance),
+        },
+        { status: 409 }
+      );
+    }
+
+    const remaining = members.filter((m) => !m.leftAt && m.userId !== existing.userId);
+    const { resolution } = options;
+    const heir = resolution.kind === "transfer"
+      ? remaining.find((m) => m.userId === resolution.toUserId)
+      : undefined;
+    if (resolution.kind === "transfer" && !heir) {
+      return NextResponse.json(
+        { error: "transferToUserId must be another current member of the group" },
+        { status: 400 }
+      );
+    }
+
+    const adjustments = departureSettlements(existing.userId, balance, resolution, remaining.map((m) => m.userId));
+    const note = heir
+      ? `Balance passed to ${heir.user.name} when ${existing.user.name} left`
+      : `Balance written off when ${existing.user.name} left`;
+
+    const member = await prisma.$transaction(async (tx) => {
+      for (const adjustment of adjustments) {
+        await tx.settlement.create({
+          data: { ...adjustment, groupId: existing.groupId, note },
+        });
+      }
+
+      const updated = await tx.groupMember.update({
+        where: { id: memberId },
+        data: { leftAt: new Date() },
+        include: { user: true },
+      });
+
+      const outcome = balance === 0
+        ? ""
+        : `; their ${balance > 0 ? "credit" : "debt"} of ${formatMoney(Math.abs(balance), currency)} was ${heir ? `passed to ${heir.user.name}` : "written off across the group"}`;
+      await tx.activityLog.create({
+        data: {
+          groupId: existing.groupId,
+          type: leaving ? "MEMBER_LEFT" : "MEMBER_REMOVED",
+          message: `${leaving ? `${currentUser.name} left the group` : `${currentUser.name} removed ${existing.user.name}`}${outcome}${options.reason ? ` (reason: ${options.reason})` : ""}`,
+        },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json({
+      ...member,
+      adjustments: adjustments.map((a) => ({ ...a, amount: fromMinor(a.amount) })),
+    });
+  } catch (error) {
+    console.error("Member removal error:", error);
+    return NextResponse.json(
+      { error: "Failed to remove member" },
+      { status: 500 }
+    );
+  }
+}
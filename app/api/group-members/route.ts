@@ -1,15 +1,43 @@
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { forbidden, groupAccess, memberGroupsWhere } from "@/lib/groupAccess";
+import { canChangeRole, isGroupRole } from "@/lib/roles";
 
 export async function POST(req: Request) {
   try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
     const body = await req.json();
 
-    const member = await prisma.groupMember.create({
-      data: {
-        groupId: body.groupId,
-        userId: body.userId,
-      },
+    if (typeof body.groupId !== "string" || typeof body.userId !== "string") {
+      return NextResponse.json({ error: "groupId and userId are required" }, { status: 400 });
+    }
+    const role = body.role ?? "MEMBER";
+    if (!isGroupRole(role)) {
+      return NextResponse.json({ error: "role must be ADMIN, MEMBER or VIEWER" }, { status: 400 });
+    }
+    const access = await groupAccess(currentUser.id, body.groupId, "manageMembers");
+    if ("denied" in access) return access.denied;
+    if (role !== "MEMBER" && !canChangeRole(access.membership.role, "MEMBER", role)) {
+      return forbidden(`Your role in this group can't add someone as ${role.toLowerCase()}`);
+    }
+
+    const existing = await prisma.groupMember.findUnique({
+      where: { userId_groupId: { userId: body.userId, groupId: body.groupId } },
+    });
+    if (existing && !existing.leftAt) {
+      return NextResponse.json({ error: "Already a member of this group" }, { status: 409 });
+    }
+    // Only people who left come back this way; anyone new joins through an invite
+    if (!existing) {
+      return NextResponse.json({ error: "Only former members can be re-added; invite anyone else" }, { status: 400 });
+    }
+
+    const member = await prisma.groupMember.update({
+      where: { id: existing.id },
+      data: { role, leftAt: null },
       include: { user: true },
     });
 
@@ -32,7 +60,12 @@ export async function POST(req: Request) {
 }
 
 export async function GET() {
+  const currentUser = await getCurrentUser();
+  if (!currentUser) return unauthorized();
+
+  // Memberships of every group the caller is in, their own included
   const members = await prisma.groupMember.findMany({
+    where: { group: memberGroupsWhere(currentUser.id) },
     include: {
       user: true,
       group: true,
@@ -1,11 +1,16 @@
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
 
 export async function GET(
     req: Request,
     context: { params: Promise<{ groupId: string }> }
 ) {
     try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
         const { groupId } = await context.params;
 
         if (!groupId) {
@@ -15,6 +20,9 @@ export async function GET(
             );
         }
 
+        const access = await groupAccess(currentUser.id, groupId);
+        if ("denied" in access) return access.denied;
+
         const activities = await prisma.activityLog.findMany({
             where: { groupId },
             orderBy: { createdAt: "desc" },
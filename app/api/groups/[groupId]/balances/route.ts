@@ -1,11 +1,17 @@
-import { prisma } from "@/lib/prisma";
+import { loadGroupLedger } from "@/lib/groupLedger";
+import { findUnreconciledExpenses } from "@/lib/expenses";
 import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
 
 export async function GET(
   req: Request,
   context: { params: Promise<{ groupId: string }> }
 ) {
   try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
     const { groupId } = await context.params; // 🔥 IMPORTANT
 
     if (!groupId) {
@@ -15,75 +21,21 @@ export async function GET(
       );
     }
 
-    const members = await prisma.groupMember.findMany({
-      where: { groupId },
-      include: { user: true },
-    });
-
-    if (members.length === 0) {
-      return NextResponse.json({
-        groupId,
-        totalExpenses: 0,
-        perPersonShare: 0,
-        balances: [],
-      });
-    }
-
-    const expenses = await prisma.expense.findMany({
-      where: { groupId },
-      include: { splits: true },
-    });
+    const access = await groupAccess(currentUser.id, groupId);
+    if ("denied" in access) return access.denied;
 
-    const settlements = await prisma.settlement.findMany({
-      where: { groupId },
-    });
+    const { currency, members, expenses, ledger } = await loadGroupLedger(groupId);
 
-    const balances: Record<string, number> = {};
-    members.forEach((member) => {
-      balances[member.userId] = 0;
-    });
-
-    let totalExpenses = 0;
-
-    for (const expense of expenses) {
-      totalExpenses += Number(expense.amount);
-
-      if (expense.splits && expense.splits.length > 0) {
-        for (const split of expense.splits) {
-          if (balances[split.userId] !== undefined) {
-            balances[split.userId] -= Number(split.amount);
-          }
-        }
-      } else {
-        const splitAmount = Number(expense.amount) / members.length;
-        for (const member of members) {
-          balances[member.userId] -= splitAmount;
-        }
-      }
-
-      if (balances[expense.paidById] !== undefined) {
-        balances[expense.paidById] += Number(expense.amount);
-      }
-    }
-
-    for (const settlement of settlements) {
-      if (balances[settlement.fromUserId] !== undefined) {
-        balances[settlement.fromUserId] += Number(settlement.amount);
-      }
-      if (balances[settlement.toUserId] !== undefined) {
-        balances[settlement.toUserId] -= Number(settlement.amount);
-      }
-    }
+    // Historical expenses whose rows don't add up, so they can be found and fixed
+    const unreconciledExpenses = findUnreconciledExpenses(expenses, members.map((m) => m.userId));
 
     return NextResponse.json({
       groupId,
-      totalExpenses,
-      perPersonShare: totalExpenses / members.length,
-      balances: members.map((member) => ({
-        userId: member.userId,
-        name: member.user.name,
-        balance: Number(Number(balances[member.userId]).toFixed(2)),
-      })),
+      currency,
+      totalExpenses: ledger.totalExpenses,
+      perPersonShare: ledger.perPersonShare,
+      balances: ledger.balances.map(({ userId, name, balance }) => ({ userId, name, balance })),
+      unreconciledExpenses,
     });
   } catch (error) {
     console.error("Balance calculation error:", error);
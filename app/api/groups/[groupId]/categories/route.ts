@@ -0,0 +1,67 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
+import { findCategory } from "@/lib/categories";
+import { loadGroupCategories } from "@/lib/groupCategories";
+
+export async function GET(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId);
+        if ("denied" in access) return access.denied;
+
+        return NextResponse.json(await loadGroupCategories(groupId));
+    } catch (error) {
+        console.error("Category fetch error:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch categories" },
+            { status: 500 }
+        );
+    }
+}
+
+/** Adds a custom category (`{ name, emoji? }`) to the group. */
+export async function POST(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId, "addExpenses");
+        if ("denied" in access) return access.denied;
+
+        const body = await req.json();
+        const name = typeof body.name === "string" ? body.name.trim() : "";
+        const emoji = typeof body.emoji === "string" && body.emoji.trim() ? body.emoji.trim() : null;
+
+        if (!name || name.length > 40) {
+            return NextResponse.json({ error: "Category name must be 1 to 40 characters" }, { status: 400 });
+        }
+
+        if (findCategory(await loadGroupCategories(groupId), name)) {
+            return NextResponse.json({ error: `Category "${name}" already exists` }, { status: 409 });
+        }
+
+        const category = await prisma.category.create({
+            data: { groupId, name, emoji },
+        });
+
+        return NextResponse.json(category);
+    } catch (error) {
+        console.error("Category create error:", error);
+        return NextResponse.json(
+            { error: "Failed to create category" },
+            { status: 500 }
+        );
+    }
+}
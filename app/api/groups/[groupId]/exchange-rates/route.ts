@@ -0,0 +1,93 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
+import { ExchangeRateRow, isCurrencyCode, parseRatesCsv } from "@/lib/currency";
+
+/**
+ * Records exchange rates for the group; only people who manage it can. Accepts
+ * a single rate or an array of rates as JSON ({ fromCurrency, toCurrency, rate,
+ * effectiveDate? }), or a CSV file body (Content-Type: text/csv) with a
+ * `from,to,rate[,date]` header. Expenses keep the rate they were saved with,
+ * so new rates only apply to expenses recorded from now on.
+ */
+export async function POST(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId, "manageMembers");
+        if ("denied" in access) return access.denied;
+
+        let rows: ExchangeRateRow[];
+
+        if (req.headers.get("content-type")?.includes("text/csv")) {
+            try {
+                rows = parseRatesCsv(await req.text());
+            } catch (err) {
+                return NextResponse.json(
+                    { error: err instanceof Error ? err.message : "Invalid CSV" },
+                    { status: 400 }
+                );
+            }
+        } else {
+            const body = await req.json();
+            const entries: Record<string, unknown>[] = Array.isArray(body) ? body : [body];
+            rows = entries.map((entry) => ({
+                fromCurrency: String(entry.fromCurrency ?? "").toUpperCase(),
+                toCurrency: String(entry.toCurrency ?? "").toUpperCase(),
+                rate: Number(entry.rate),
+                effectiveDate: entry.effectiveDate ? new Date(String(entry.effectiveDate)) : new Date(),
+            }));
+
+            const invalid = rows.findIndex((r) =>
+                !isCurrencyCode(r.fromCurrency) || !isCurrencyCode(r.toCurrency) || !(r.rate > 0) || isNaN(r.effectiveDate.getTime())
+            );
+            if (invalid >= 0) {
+                return NextResponse.json(
+                    { error: `Invalid exchange rate at index ${invalid}: fromCurrency, toCurrency and a positive rate are required.` },
+                    { status: 400 }
+                );
+            }
+        }
+
+        if (rows.length === 0) {
+            return NextResponse.json({ error: "No exchange rates provided." }, { status: 400 });
+        }
+
+        const result = await prisma.exchangeRate.createMany({
+            data: rows.map((row) => ({ ...row, groupId })),
+        });
+
+        return NextResponse.json({ imported: result.count });
+    } catch (error) {
+        console.error("Exchange rate error:", error);
+        return NextResponse.json(
+            { error: "Failed to save exchange rates" },
+            { status: 500 }
+        );
+    }
+}
+
+/** The group's exchange rates, newest first for each pair. */
+export async function GET(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
+    const { groupId } = await context.params;
+    const access = await groupAccess(currentUser.id, groupId);
+    if ("denied" in access) return access.denied;
+
+    const rates = await prisma.exchangeRate.findMany({
+        where: { groupId },
+        orderBy: [{ fromCurrency: "asc" }, { toCurrency: "asc" }, { effectiveDate: "desc" }],
+    });
+    return NextResponse.json(rates);
+}
@@ -1,19 +1,50 @@
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
 import { jsPDF } from "jspdf";
-import { calculateSettlements } from "@/lib/settlement";
+import { groupSettlementPlan, loadGroupLedger } from "@/lib/groupLedger";
+import { fromMinor } from "@/lib/money";
+import { payerNames } from "@/lib/expenses";
+import { categoryBreakdown } from "@/lib/categories";
+import {
+    EXPENSE_CSV_HEADER,
+    expenseCsvRows,
+    inRange,
+    parseExportOptions,
+    SETTLEMENT_CSV_HEADER,
+    settlementCsvRows,
+    toCsv,
+} from "@/lib/exports";
 
+/**
+ * The group's summary as a PDF (the default), or as CSV with `?format=csv`:
+ * expenses with one row per split, or payments with `table=settlements`.
+ * `from` and `to` (YYYY-MM-DD, inclusive) limit the expenses and payments
+ * listed; the PDF's balances and settlement plan always cover all time.
+ */
 export async function GET(
     req: Request,
     context: { params: Promise<{ groupId: string }> }
 ) {
     try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
         const { groupId } = await context.params;
 
         if (!groupId) {
             return NextResponse.json({ error: "Group ID is required" }, { status: 400 });
         }
 
+        const access = await groupAccess(currentUser.id, groupId);
+        if ("denied" in access) return access.denied;
+
+        const options = parseExportOptions(new URL(req.url).searchParams);
+        if ("error" in options) {
+            return NextResponse.json({ error: options.error }, { status: 400 });
+        }
+
         // Fetch Group
         const group = await prisma.group.findUnique({
             where: { id: groupId },
@@ -23,70 +54,32 @@ export async function GET(
             return NextResponse.json({ error: "Group not found" }, { status: 404 });
         }
 
-        // Fetch Members
-        const members = await prisma.groupMember.findMany({
-            where: { groupId },
-            include: { user: true },
-        });
-
-        // Fetch Expenses
-        const expenses = await prisma.expense.findMany({
-            where: { groupId },
-            include: { paidBy: true, splits: true },
-            orderBy: { createdAt: "asc" },
-        });
-
-        // Fetch Settlements
-        const settlementsRecords = await prisma.settlement.findMany({
-            where: { groupId },
-            include: { fromUser: true, toUser: true },
-            orderBy: { createdAt: "asc" },
-        });
-
-        // Calculate Balances
-        const balances: Record<string, number> = {};
-        members.forEach((m) => {
-            balances[m.userId] = 0;
-        });
+        const { currency, members, expenses, settlements: settlementsRecords, ledger } = await loadGroupLedger(groupId);
+        const { totalExpenses, perPersonShare, balances: balanceArray } = ledger;
+        const { transactions: settlementPlan, residue } = groupSettlementPlan(group, ledger);
+        const expensesInRange = expenses.filter((e) => inRange(e.createdAt, options));
+        const settlementsInRange = settlementsRecords.filter((s) => inRange(s.createdAt, options));
+        const filename = group.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
 
-        let totalExpenses = 0;
-        for (const expense of expenses) {
-            totalExpenses += Number(expense.amount);
-            if (expense.splits && expense.splits.length > 0) {
-                for (const split of expense.splits) {
-                    if (balances[split.userId] !== undefined) {
-                        balances[split.userId] -= Number(split.amount);
-                    }
-                }
-            } else {
-                const splitAmount = Number(expense.amount) / members.length;
-                members.forEach((m) => {
-                    balances[m.userId] -= splitAmount;
-                });
-            }
-
-            if (balances[expense.paidById] !== undefined) {
-                balances[expense.paidById] += Number(expense.amount);
-            }
-        }
+        if (options.format === "csv") {
+            const nameOf = new Map(members.map((m) => [m.userId, m.user.name]));
+            const csv = options.table === "settlements"
+                ? toCsv(SETTLEMENT_CSV_HEADER, settlementCsvRows(settlementsInRange, currency))
+                : toCsv(EXPENSE_CSV_HEADER, expenseCsvRows(
+                    expensesInRange.map((e) => ({ ...e, paidBy: payerNames(e) })),
+                    currency,
+                    (userId) => nameOf.get(userId) ?? "Unknown"
+                ));
 
-        for (const sr of settlementsRecords) {
-            if (balances[sr.fromUserId] !== undefined) {
-                balances[sr.fromUserId] += Number(sr.amount);
-            }
-            if (balances[sr.toUserId] !== undefined) {
-                balances[sr.toUserId] -= Number(sr.amount);
-            }
+            // The byte order mark lets spreadsheet apps read names and ₹ as UTF-8
+            return new NextResponse(`\uFEFF${csv}`, {
+                headers: {
+                    "Content-Type": "text/csv; charset=utf-8",
+                    "Content-Disposition": `attachment; filename="${filename}_${options.table}.csv"`,
+                },
+            });
         }
 
-        const balanceArray = members.map((m) => ({
-            userId: m.userId,
-            name: m.user.name,
-            balance: Number(Number(balances[m.userId]).toFixed(2)),
-        }));
-
-        const settlementPlan = calculateSettlements(balanceArray);
-
         // Generation
         const doc = new jsPDF();
         let y = 20;
@@ -120,7 +113,8 @@ export async function GET(
         doc.setFont("helvetica", "normal");
         members.forEach((m, idx) => {
             checkPageBreak(10);
-            doc.text(`${idx + 1}. ${m.user.name} (${m.user.email})`, 25, y);
+            const left = m.leftAt ? `, left on ${new Date(m.leftAt).toLocaleDateString()}` : "";
+            doc.text(`${idx + 1}. ${m.user.name} (${m.user.email ?? "not signed up yet"}${left})`, 25, y);
             y += 6;
         });
         y += 10;
@@ -129,16 +123,35 @@ export async function GET(
         checkPageBreak(30);
         doc.setFontSize(14);
         doc.setFont("helvetica", "bold");
-        doc.text(`Total Expenses: INR ${totalExpenses.toFixed(2)}`, 20, y);
+        doc.text(`Total Expenses: ${currency} ${totalExpenses.toFixed(2)}`, 20, y);
         y += 8;
-        if (members.length > 0) {
+        if (balanceArray.length > 0) {
             doc.setFontSize(11);
             doc.setFont("helvetica", "normal");
-            doc.text(`Per Person (Equal Split): INR ${(totalExpenses / members.length).toFixed(2)}`, 20, y);
+            doc.text(`Per Person (Equal Split): ${currency} ${perPersonShare.toFixed(2)}`, 20, y);
             y += 8;
         }
         y += 10;
 
+        // Spending by Category
+        const byCategory = categoryBreakdown(expenses.map((e) => ({ category: e.category, amount: e.baseAmount })));
+        if (byCategory.length > 0) {
+            checkPageBreak(30);
+            doc.setFontSize(14);
+            doc.setFont("helvetica", "bold");
+            doc.text("Spending by Category", 20, y);
+            y += 8;
+
+            doc.setFontSize(11);
+            doc.setFont("helvetica", "normal");
+            byCategory.forEach((c) => {
+                checkPageBreak(10);
+                doc.text(`${c.category}: ${currency} ${fromMinor(c.amount).toFixed(2)} (${c.count} expense${c.count === 1 ? "" : "s"})`, 25, y);
+                y += 6;
+            });
+            y += 10;
+        }
+
         // Final Balances
         checkPageBreak(30);
         doc.setFontSize(14);
@@ -152,7 +165,7 @@ export async function GET(
             checkPageBreak(10);
             const status = b.balance > 0 ? "Gets Back" : b.balance < 0 ? "Owes" : "Settled Up";
             const amount = Math.abs(b.balance).toFixed(2);
-            doc.text(`${b.name}: ${status} INR ${amount}`, 25, y);
+            doc.text(`${b.name}: ${status} ${currency} ${amount}`, 25, y);
             y += 6;
         });
         y += 10;
@@ -172,10 +185,15 @@ export async function GET(
         } else {
             settlementPlan.forEach((sp) => {
                 checkPageBreak(10);
-                doc.text(`• ${sp.from} needs to pay INR ${Number(sp.amount).toFixed(2)} to ${sp.to}`, 25, y);
+                doc.text(`• ${sp.from} needs to pay ${currency} ${Number(sp.amount).toFixed(2)} to ${sp.to}`, 25, y);
                 y += 6;
             });
         }
+        residue.forEach((r) => {
+            checkPageBreak(10);
+            doc.text(`• Not covered by the plan: ${r.name} ${r.amount > 0 ? "is owed" : "owes"} ${currency} ${Math.abs(r.amount).toFixed(2)}`, 25, y);
+            y += 6;
+        });
         y += 10;
 
         // Expense History
@@ -187,21 +205,30 @@ export async function GET(
 
         doc.setFontSize(10);
         doc.setFont("helvetica", "normal");
-        if (expenses.length === 0) {
-            doc.text("No expenses recorded yet.", 25, y);
+        if (options.from || options.to) {
+            const bound = (date: Date | null) => date?.toISOString().slice(0, 10) ?? "…";
+            doc.text(`Expenses and payments from ${bound(options.from)} to ${bound(options.to)}`, 25, y);
+            y += 6;
+        }
+        if (expensesInRange.length === 0) {
+            doc.text(options.from || options.to ? "No expenses in this period." : "No expenses recorded yet.", 25, y);
             y += 6;
         } else {
-            expenses.forEach((e) => {
+            expensesInRange.forEach((e) => {
                 checkPageBreak(10);
                 const date = new Date(e.createdAt).toLocaleDateString();
-                doc.text(`[${date}] ${e.description} - INR ${Number(e.amount).toFixed(2)} (Paid by ${e.paidBy?.name || "Unknown"})`, 25, y);
+                const original = `${e.currency} ${fromMinor(e.amount).toFixed(2)}`;
+                const amount = e.currency === currency
+                    ? original
+                    : `${original} (${currency} ${fromMinor(e.baseAmount).toFixed(2)})`;
+                doc.text(`[${date}] ${e.description} [${e.category}] - ${amount} (Paid by ${payerNames(e)})`, 25, y);
                 y += 6;
             });
         }
         y += 10;
 
         // Payments History
-        if (settlementsRecords.length > 0) {
+        if (settlementsInRange.length > 0) {
             checkPageBreak(30);
             doc.setFontSize(14);
             doc.setFont("helvetica", "bold");
@@ -210,10 +237,17 @@ export async function GET(
 
             doc.setFontSize(10);
             doc.setFont("helvetica", "normal");
-            settlementsRecords.forEach((sr) => {
+            settlementsInRange.forEach((sr) => {
                 checkPageBreak(10);
                 const date = new Date(sr.createdAt).toLocaleDateString();
-                doc.text(`[${date}] ${sr.fromUser?.name} paid ${sr.toUser?.name} INR ${Number(sr.amount).toFixed(2)}`, 25, y);
+                const line = `[${date}] ${sr.fromUser?.name} paid ${sr.toUser?.name} ${currency} ${fromMinor(sr.amount).toFixed(2)}${sr.upiReference ? ` via UPI (ref ${sr.upiReference})` : ""}${sr.note ? ` - ${sr.note}` : ""}`;
+                doc.text(line, 25, y);
+                if (sr.voidedAt) {
+                    // Strike through voided payments and say why they no longer count
+                    const width = doc.getTextWidth(line);
+                    doc.line(25, y - 1.2, 25 + width, y - 1.2);
+                    doc.text(`(voided${sr.voidReason ? `: ${sr.voidReason}` : ""})`, 25 + width + 2, y);
+                }
                 y += 6;
             });
         }
@@ -225,7 +259,7 @@ export async function GET(
         return new NextResponse(pdfBuffer as unknown as BodyInit, {
             headers: {
                 "Content-Type": "application/pdf",
-                "Content-Disposition": `attachment; filename="${group.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_summary.pdf"`,
+                "Content-Disposition": `attachment; filename="${filename}_summary.pdf"`,
             },
         });
     } catch (error) {
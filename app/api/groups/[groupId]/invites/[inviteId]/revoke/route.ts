@@ -0,0 +1,53 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
+import { serializeInvite } from "@/lib/groupInvites";
+
+/** Revokes an invite so its link stops working. The row is kept for history. */
+export async function POST(
+    req: Request,
+    context: { params: Promise<{ groupId: string; inviteId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId, inviteId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId, "manageMembers");
+        if ("denied" in access) return access.denied;
+
+        const existing = await prisma.groupInvite.findUnique({ where: { id: inviteId } });
+        if (!existing || existing.groupId !== groupId) {
+            return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+        }
+        if (existing.revokedAt) {
+            return NextResponse.json({ error: "Invite is already revoked" }, { status: 409 });
+        }
+
+        const invite = await prisma.$transaction(async (tx) => {
+            const revoked = await tx.groupInvite.update({
+                where: { id: inviteId },
+                data: { revokedAt: new Date() },
+            });
+
+            await tx.activityLog.create({
+                data: {
+                    groupId,
+                    type: "INVITE_REVOKED",
+                    message: `${currentUser.name} revoked the invite for ${revoked.email ?? "a shared link"}`,
+                },
+            });
+
+            return revoked;
+        });
+
+        return NextResponse.json(serializeInvite(invite, new URL(req.url).origin));
+    } catch (error) {
+        console.error("Invite revoke error:", error);
+        return NextResponse.json(
+            { error: "Failed to revoke invite" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,132 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { forbidden, groupAccess } from "@/lib/groupAccess";
+import { inviteLink, newInviteToken, serializeInvite } from "@/lib/groupInvites";
+import { inviteStatus, parseInviteOptions } from "@/lib/invites";
+import { sendInviteEmail } from "@/lib/mailer";
+import { canChangeRole } from "@/lib/roles";
+
+/** Invites that can still be accepted. */
+export async function GET(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId, "manageMembers");
+        if ("denied" in access) return access.denied;
+
+        const now = new Date();
+        const invites = await prisma.groupInvite.findMany({
+            where: { groupId, revokedAt: null, expiresAt: { gt: now } },
+            orderBy: { createdAt: "desc" },
+        });
+
+        const origin = new URL(req.url).origin;
+        return NextResponse.json(
+            invites
+                .filter((invite) => inviteStatus(invite, now) === "active")
+                .map((invite) => serializeInvite(invite, origin, now))
+        );
+    } catch (error) {
+        console.error("Invite fetch error:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch invites" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Creates an invite (`{ email?, placeholderId?, role?, maxUses?, expiresInDays? }`).
+ * With an email it is mailed to that address; either way the response carries
+ * the link. An invite for a placeholder lets whoever accepts it take over the
+ * placeholder's place, role and history.
+ */
+export async function POST(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId, "manageMembers");
+        if ("denied" in access) return access.denied;
+
+        const body = await req.json().catch(() => ({}));
+        const options = parseInviteOptions(body, new Date());
+        if ("error" in options) {
+            return NextResponse.json({ error: options.error }, { status: 400 });
+        }
+
+        if (options.placeholderId) {
+            const placeholder = await prisma.groupMember.findUnique({
+                where: { userId_groupId: { userId: options.placeholderId, groupId } },
+                include: { user: true },
+            });
+            if (!placeholder?.user.placeholder || placeholder.leftAt) {
+                return NextResponse.json({ error: "placeholderId must be a placeholder member of this group" }, { status: 400 });
+            }
+            if (placeholder.role === "OWNER") {
+                return NextResponse.json({ error: "The owner can't be a placeholder" }, { status: 400 });
+            }
+            options.role = placeholder.role;
+        }
+        if (options.role !== "MEMBER" && !canChangeRole(access.membership.role, "MEMBER", options.role)) {
+            return forbidden(`Your role in this group can't invite someone as ${options.role.toLowerCase()}`);
+        }
+
+        if (options.email) {
+            const alreadyMember = await prisma.groupMember.findFirst({
+                where: { groupId, user: { email: options.email }, leftAt: null },
+            });
+            if (alreadyMember) {
+                return NextResponse.json({ error: `${options.email} is already in this group` }, { status: 409 });
+            }
+        }
+
+        const invite = await prisma.$transaction(async (tx) => {
+            const created = await tx.groupInvite.create({
+                data: { ...options, groupId, token: newInviteToken(), createdById: currentUser.id },
+                include: { group: true },
+            });
+
+            await tx.activityLog.create({
+                data: {
+                    groupId,
+                    type: "INVITE_CREATED",
+                    message: created.placeholderId
+                        ? `${currentUser.name} invited ${created.email ?? "someone"} to claim a placeholder's place`
+                        : `${currentUser.name} invited ${created.email ?? "people with a link"} to join as ${created.role.toLowerCase()}`,
+                },
+            });
+
+            return created;
+        });
+
+        const origin = new URL(req.url).origin;
+        const emailSent = invite.email
+            ? await sendInviteEmail({
+                to: invite.email,
+                groupName: invite.group.name,
+                inviterName: currentUser.name,
+                link: inviteLink(origin, invite.token),
+                expiresAt: invite.expiresAt,
+            })
+            : false;
+
+        return NextResponse.json({ ...serializeInvite(invite, origin), emailSent });
+    } catch (error) {
+        console.error("Invite create error:", error);
+        return NextResponse.json(
+            { error: "Failed to create invite" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,61 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
+import { groupSettlementPlan, loadGroupLedger } from "@/lib/groupLedger";
+import { toMinor } from "@/lib/money";
+import { qrSvg } from "@/lib/qr";
+import { UPI_CURRENCY, upiPayLink } from "@/lib/upi";
+
+/**
+ * A UPI payment for every transfer in the group's settlement plan: the
+ * `upi://pay` link and its QR code as SVG. Transfers whose payee has no UPI ID,
+ * or in groups that don't use rupees, come back with `link: null` and the
+ * reason in `unavailable`.
+ */
+export async function GET(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId);
+        if ("denied" in access) return access.denied;
+
+        const { group, currency, ledger } = await loadGroupLedger(groupId);
+        const { transactions } = groupSettlementPlan(group, ledger);
+        const payees = await prisma.user.findMany({
+            where: { id: { in: transactions.map((t) => t.toId) } },
+        });
+        const upiIdOf = new Map(payees.map((u) => [u.id, u.upiId]));
+
+        const intents = transactions.map((t) => {
+            const upiId = upiIdOf.get(t.toId) ?? null;
+            const unavailable = currency !== UPI_CURRENCY
+                ? `UPI only works for ${UPI_CURRENCY} groups`
+                : !upiId ? `${t.to} hasn't added a UPI ID` : null;
+            const link = upiId && !unavailable
+                ? upiPayLink({ upiId, payeeName: t.to, amount: toMinor(t.amount), note: `YourSplit: ${group?.name ?? "settle up"}` })
+                : null;
+
+            return {
+                ...t,
+                upiId,
+                link,
+                qrSvg: link ? qrSvg(link) : null,
+                unavailable,
+            };
+        });
+
+        return NextResponse.json({ groupId, currency, intents });
+    } catch (error) {
+        console.error("Payment intents error:", error);
+        return NextResponse.json(
+            { error: "Failed to prepare payment links" },
+            { status: 500 }
+        );
+    }
+}
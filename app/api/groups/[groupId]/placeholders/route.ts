@@ -0,0 +1,57 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
+
+/**
+ * Adds a friend who hasn't signed up (`{ name }`) as a placeholder member with
+ * no email. They can be split with right away and claim their place later
+ * through an invite.
+ */
+export async function POST(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId, "manageMembers");
+        if ("denied" in access) return access.denied;
+
+        const body = await req.json().catch(() => ({}));
+        const name = typeof body.name === "string" ? body.name.trim() : "";
+        if (!name || name.length > 60) {
+            return NextResponse.json({ error: "Name must be 1 to 60 characters" }, { status: 400 });
+        }
+
+        const member = await prisma.$transaction(async (tx) => {
+            const created = await tx.groupMember.create({
+                data: {
+                    group: { connect: { id: groupId } },
+                    user: { create: { name, placeholder: true } },
+                },
+                include: { user: true },
+            });
+
+            await tx.activityLog.create({
+                data: {
+                    groupId,
+                    type: "MEMBER_JOINED",
+                    message: `${currentUser.name} added ${name}, who hasn't signed up yet`,
+                },
+            });
+
+            return created;
+        });
+
+        return NextResponse.json(member);
+    } catch (error) {
+        console.error("Placeholder create error:", error);
+        return NextResponse.json(
+            { error: "Failed to add placeholder member" },
+            { status: 500 }
+        );
+    }
+}
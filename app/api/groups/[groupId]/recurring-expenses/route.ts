@@ -0,0 +1,147 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
+import { formatMoney, fromMinor, toMinor } from "@/lib/money";
+import { FieldErrors, validateExpense } from "@/lib/expenses";
+import { checkExpenseCurrency } from "@/lib/exchangeRates";
+import { DEFAULT_CATEGORY } from "@/lib/categories";
+import { resolveCategory } from "@/lib/groupCategories";
+import { describeSchedule, firstOccurrence, parseSchedule } from "@/lib/recurrence";
+
+export async function GET(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+
+        const access = await groupAccess(currentUser.id, groupId);
+        if ("denied" in access) return access.denied;
+
+        const recurring = await prisma.recurringExpense.findMany({
+            where: { groupId },
+            include: { paidBy: true },
+            orderBy: { nextRunAt: "asc" },
+        });
+
+        return NextResponse.json(
+            recurring.map((r) => ({ ...r, amount: fromMinor(r.amount), schedule: describeSchedule(r) }))
+        );
+    } catch (error) {
+        console.error("Recurring expense fetch error:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch recurring expenses" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Defines an expense that repeats on a schedule. Nothing is charged here;
+ * scripts/runRecurringExpenses.ts creates the expenses as they come due.
+ */
+export async function POST(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId, "addExpenses");
+        if ("denied" in access) return access.denied;
+
+        const body = await req.json();
+        const { paidById, splitType = "EQUAL", splits = [] } = body;
+        const description = typeof body.description === "string" ? body.description.trim() : "";
+        const amount = toMinor(body.amount);
+        const fieldErrors: FieldErrors = {};
+
+        const group = await prisma.group.findUnique({ where: { id: groupId } });
+        if (!group) {
+            return NextResponse.json({ error: "Group not found" }, { status: 404 });
+        }
+        const members = await prisma.groupMember.findMany({ where: { groupId, leftAt: null } });
+
+        const currency = body.currency ?? group.baseCurrency;
+        const currencyError = await checkExpenseCurrency(currency, groupId, group.baseCurrency);
+        if (currencyError) {
+            fieldErrors.currency = currencyError;
+        }
+
+        const category = await resolveCategory(groupId, body.category ?? DEFAULT_CATEGORY);
+        if (!category) {
+            fieldErrors.category = "Unknown category for this group";
+        }
+
+        if (splitType === "ITEMIZED") {
+            fieldErrors.splitType = "Itemized receipts can't repeat";
+        }
+
+        const parsed = parseSchedule(body);
+        if ("error" in parsed) {
+            fieldErrors.frequency = parsed.error;
+        }
+
+        const startDate = body.startDate ? new Date(body.startDate) : new Date();
+        if (isNaN(startDate.getTime())) {
+            fieldErrors.startDate = "startDate must be a valid date";
+        }
+
+        Object.assign(fieldErrors, validateExpense({
+            description,
+            amount,
+            currency,
+            splitType,
+            memberIds: members.map((m) => m.userId),
+            paidById: paidById ?? "",
+            splits,
+        }));
+        if ("error" in parsed || !category || Object.keys(fieldErrors).length > 0) {
+            return NextResponse.json({ error: "Invalid recurring expense", fieldErrors }, { status: 400 });
+        }
+        const { schedule } = parsed;
+
+        const recurring = await prisma.$transaction(async (tx) => {
+            const created = await tx.recurringExpense.create({
+                data: {
+                    groupId,
+                    description,
+                    category,
+                    amount,
+                    currency,
+                    paidById,
+                    splitType,
+                    splits,
+                    ...schedule,
+                    startDate,
+                    nextRunAt: firstOccurrence(schedule, startDate),
+                },
+                include: { paidBy: true },
+            });
+
+            await tx.activityLog.create({
+                data: {
+                    groupId,
+                    type: "RECURRING_EXPENSE_CREATED",
+                    message: `${created.paidBy.name} set up ${description} (${formatMoney(amount, currency)}, ${describeSchedule(schedule).toLowerCase()})`,
+                },
+            });
+
+            return created;
+        });
+
+        return NextResponse.json({ ...recurring, amount: fromMinor(recurring.amount), schedule: describeSchedule(recurring) });
+    } catch (error) {
+        console.error("Recurring expense create error:", error);
+        return NextResponse.json(
+            { error: "Failed to create recurring expense" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,200 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
+import { permissionsFor } from "@/lib/roles";
+import { parseGroupSettings } from "@/lib/groupSettings";
+import { loadGroupLedger } from "@/lib/groupLedger";
+import { formatMoney, fromMinor } from "@/lib/money";
+
+/**
+ * The group with its members' roles, plus the caller's own role and what it allows.
+ * People who have left are listed too, with `leftAt` set.
+ */
+export async function GET(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId);
+        if ("denied" in access) return access.denied;
+
+        const group = await prisma.group.findUniqueOrThrow({
+            where: { id: groupId },
+            include: { members: { include: { user: true } } },
+        });
+
+        return NextResponse.json({
+            id: group.id,
+            name: group.name,
+            baseCurrency: group.baseCurrency,
+            description: group.description,
+            emoji: group.emoji,
+            archivedAt: group.archivedAt,
+            simplifyDebts: group.simplifyDebts,
+            settlementRounding: fromMinor(group.settlementRounding),
+            minTransfer: fromMinor(group.minTransfer),
+            maxTransfersPerPerson: group.maxTransfersPerPerson,
+            createdAt: group.createdAt,
+            members: group.members.map((m) => ({
+                id: m.id,
+                userId: m.userId,
+                name: m.user.name,
+                email: m.user.email,
+                placeholder: m.user.placeholder,
+                role: m.role,
+                leftAt: m.leftAt,
+            })),
+            currentUserId: currentUser.id,
+            role: access.membership.role,
+            permissions: permissionsFor(access.membership.role, !!group.archivedAt),
+        });
+    } catch (error) {
+        console.error("Group fetch error:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch group" },
+            { status: 500 }
+        );
+    }
+}
+
+const settlementOptionsLabel = (group: { settlementRounding: number; minTransfer: number; maxTransfersPerPerson: number | null; baseCurrency: string }) => [
+    group.settlementRounding ? `round to ${formatMoney(group.settlementRounding, group.baseCurrency)}` : "exact amounts",
+    group.minTransfer ? `skip under ${formatMoney(group.minTransfer, group.baseCurrency)}` : null,
+    group.maxTransfersPerPerson ? `at most ${group.maxTransfersPerPerson} per person` : null,
+].filter(Boolean).join(", ");
+
+/**
+ * Updates the group's settings (`{ name?, description?, emoji?, archived?,
+ * simplifyDebts?, settlementRounding?, minTransfer?, maxTransfersPerPerson? }`). Archiving makes the group read-only and hides it from the
+ * dashboard.
+ */
+export async function PATCH(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId, "renameGroup");
+        if ("denied" in access) return access.denied;
+
+        const body = await req.json().catch(() => ({}));
+        const change = parseGroupSettings(body);
+        if ("error" in change) {
+            return NextResponse.json({ error: change.error }, { status: 400 });
+        }
+
+        const existing = await prisma.group.findUniqueOrThrow({ where: { id: groupId } });
+        const { archived, ...details } = change;
+        const archiving = archived !== undefined && archived !== !!existing.archivedAt;
+
+        const group = await prisma.$transaction(async (tx) => {
+            const updated = await tx.group.update({
+                where: { id: groupId },
+                data: {
+                    ...details,
+                    ...(archiving ? { archivedAt: archived ? new Date() : null } : {}),
+                },
+            });
+
+            const messages = [
+                details.name !== undefined && details.name !== existing.name
+                    ? `${currentUser.name} renamed the group from "${existing.name}" to "${details.name}"`
+                    : null,
+                (details.description !== undefined && details.description !== existing.description)
+                    || (details.emoji !== undefined && details.emoji !== existing.emoji)
+                    ? `${currentUser.name} updated the group's description`
+                    : null,
+                archiving ? `${currentUser.name} ${archived ? "archived" : "unarchived"} the group` : null,
+                details.simplifyDebts !== undefined && details.simplifyDebts !== existing.simplifyDebts
+                    ? `${currentUser.name} turned debt simplification ${details.simplifyDebts ? "on" : "off"}`
+                    : null,
+                (details.settlementRounding !== undefined && details.settlementRounding !== existing.settlementRounding)
+                    || (details.minTransfer !== undefined && details.minTransfer !== existing.minTransfer)
+                    || (details.maxTransfersPerPerson !== undefined && details.maxTransfersPerPerson !== existing.maxTransfersPerPerson)
+                    ? `${currentUser.name} changed the settlement options (${settlementOptionsLabel({ ...existing, ...details })})`
+                    : null,
+            ].filter((message): message is string => message !== null);
+
+            for (const message of messages) {
+                await tx.activityLog.create({
+                    data: { groupId, type: "GROUP_UPDATED", message },
+                });
+            }
+
+            return updated;
+        });
+
+        return NextResponse.json(group);
+    } catch (error) {
+        console.error("Group update error:", error);
+        return NextResponse.json(
+            { error: "Failed to update group" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Deletes the group with its expenses, payments, members, invites and
+ * history. While anyone still owes money this needs `{ confirm: true }`, and
+ * the 409 lists the open balances.
+ */
+export async function DELETE(
+    req: Request,
+    context: { params: Promise<{ groupId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { groupId } = await context.params;
+        const access = await groupAccess(currentUser.id, groupId, "deleteGroup");
+        if ("denied" in access) return access.denied;
+
+        const body = await req.json().catch(() => ({}));
+        const { ledger } = await loadGroupLedger(groupId);
+        const open = ledger.balances.filter((b) => b.balance !== 0);
+        if (open.length > 0 && body.confirm !== true) {
+            return NextResponse.json(
+                {
+                    error: "Some members aren't settled up. Send { confirm: true } to delete the group anyway",
+                    balances: open.map(({ userId, name, balance }) => ({ userId, name, balance })),
+                },
+                { status: 409 }
+            );
+        }
+
+        await prisma.$transaction(async (tx) => {
+            const expense = { expense: { groupId } };
+            await tx.expenseItemParticipant.deleteMany({ where: { item: expense } });
+            await tx.expenseItem.deleteMany({ where: expense });
+            await tx.expenseSplit.deleteMany({ where: expense });
+            await tx.expensePayer.deleteMany({ where: expense });
+            await tx.expense.deleteMany({ where: { groupId } });
+            await tx.recurringExpense.deleteMany({ where: { groupId } });
+            await tx.settlement.deleteMany({ where: { groupId } });
+            await tx.category.deleteMany({ where: { groupId } });
+            await tx.exchangeRate.deleteMany({ where: { groupId } });
+            await tx.groupInvite.deleteMany({ where: { groupId } });
+            await tx.activityLog.deleteMany({ where: { groupId } });
+            await tx.groupMember.deleteMany({ where: { groupId } });
+            await tx.group.delete({ where: { id: groupId } });
+        });
+
+        return NextResponse.json({ id: groupId, deleted: true });
+    } catch (error) {
+        console.error("Group delete error:", error);
+        return NextResponse.json(
+            { error: "Failed to delete group" },
+            { status: 500 }
+        );
+    }
+}
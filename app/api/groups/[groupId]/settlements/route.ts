@@ -1,12 +1,29 @@
-import { prisma } from "@/lib/prisma";
+import { groupSettlementPlan, loadGroupLedger } from "@/lib/groupLedger";
 import { NextResponse } from "next/server";
-import { calculateSettlements } from "@/lib/settlement";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
+import { isSettlementAlgorithm } from "@/lib/settlement";
+import { fromMinor } from "@/lib/money";
 
+/**
+ * Who should pay whom to settle the group. `?algorithm=exact` (the default)
+ * finds the fewest transfers, falling back to greedy for large groups;
+ * `?algorithm=greedy` always uses the greedy match. Groups that don't simplify
+ * debts get the pairwise plan instead, reported as `algorithm: "pairwise"`.
+ * The response says which ran and how many transfers it saves compared with
+ * paying every debt the expenses created; recorded payments aren't counted.
+ * The group's rounding, minimum transfer and per-person cap are applied to
+ * simplified plans, and `residue` lists what that leaves unsettled for each
+ * person so the totals still add up.
+ */
 export async function GET(
   req: Request,
   context: { params: Promise<{ groupId: string }> }
 ) {
   try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
     const { groupId } = await context.params;
 
     if (!groupId) {
@@ -16,75 +33,34 @@ export async function GET(
       );
     }
 
-    const members = await prisma.groupMember.findMany({
-      where: { groupId },
-      include: { user: true },
-    });
-
-    if (members.length === 0) {
-      return NextResponse.json({
-        groupId,
-        settlements: [],
-      });
-    }
-
-    const expenses = await prisma.expense.findMany({
-      where: { groupId },
-      include: { splits: true },
-    });
-
-    const settlementsRecords = await prisma.settlement.findMany({
-      where: { groupId },
-    });
-
-    const balances: Record<string, number> = {};
+    const access = await groupAccess(currentUser.id, groupId);
+    if ("denied" in access) return access.denied;
 
-    members.forEach((m) => {
-      balances[m.userId] = 0;
-    });
-
-    for (const expense of expenses) {
-      if (expense.splits && expense.splits.length > 0) {
-        for (const split of expense.splits) {
-          if (balances[split.userId] !== undefined) {
-            balances[split.userId] -= Number(split.amount);
-          }
-        }
-      } else {
-        const splitAmount = Number(expense.amount) / members.length;
-        members.forEach((m) => {
-          balances[m.userId] -= splitAmount;
-        });
-      }
-
-      if (balances[expense.paidById] !== undefined) {
-        balances[expense.paidById] += Number(expense.amount);
-      }
-    }
-
-    // Process recorded settlements (reduces debt)
-    for (const sr of settlementsRecords) {
-      if (balances[sr.fromUserId] !== undefined) {
-        balances[sr.fromUserId] += Number(sr.amount);
-      }
-      if (balances[sr.toUserId] !== undefined) {
-        balances[sr.toUserId] -= Number(sr.amount);
-      }
+    const requested = new URL(req.url).searchParams.get("algorithm") ?? "exact";
+    if (!isSettlementAlgorithm(requested)) {
+      return NextResponse.json(
+        { error: "algorithm must be exact or greedy" },
+        { status: 400 }
+      );
     }
 
-    // Convert to array
-    const balanceArray = members.map((m) => ({
-      userId: m.userId,
-      name: m.user.name,
-      balance: Number(Number(balances[m.userId]).toFixed(2)),
-    }));
-
-    // Calculate optimal settlements using generic utility
-    const settlements = calculateSettlements(balanceArray);
+    const { group, currency, ledger } = await loadGroupLedger(groupId);
+    const plan = groupSettlementPlan(group, ledger, requested);
 
     return NextResponse.json({
       groupId,
-      settlements,
+      currency,
+      settlements: plan.transactions,
+      algorithm: plan.algorithm,
+      simplifyDebts: group?.simplifyDebts ?? true,
+      options: {
+        settlementRounding: fromMinor(group?.settlementRounding ?? 0),
+        minTransfer: fromMinor(group?.minTransfer ?? 0),
+        maxTransfersPerPerson: group?.maxTransfersPerPerson ?? null,
+      },
+      residue: plan.residue,
+      rawEdgeCount: ledger.expenseEdgeCount,
+      transfersSaved: Math.max(0, ledger.expenseEdgeCount - plan.transactions.length),
     });
   } catch (error) {
     console.error("Settlement error:", error);
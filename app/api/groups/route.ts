@@ -1,13 +1,35 @@
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { memberGroupsWhere } from "@/lib/groupAccess";
+import { DEFAULT_CURRENCY, isCurrencyCode } from "@/lib/currency";
+import { parseGroupName } from "@/lib/groupSettings";
 
 export async function POST(req: Request) {
   try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
     const body = await req.json();
+    const name = parseGroupName(body.name);
+    if ("error" in name) {
+      return NextResponse.json({ error: name.error }, { status: 400 });
+    }
+    const baseCurrency = body.baseCurrency ?? DEFAULT_CURRENCY;
+
+    if (!isCurrencyCode(baseCurrency)) {
+      return NextResponse.json(
+        { error: "baseCurrency must be a three-letter ISO code" },
+        { status: 400 }
+      );
+    }
 
     const group = await prisma.group.create({
       data: {
-        name: body.name,
+        name: name.name,
+        baseCurrency,
+        // The creator joins straight away, or they couldn't reach their own group
+        members: { create: { userId: currentUser.id, role: "OWNER" } },
       },
     });
 
@@ -21,7 +43,14 @@ export async function POST(req: Request) {
   }
 }
 
-export async function GET() {
-  const groups = await prisma.group.findMany();
+/** The caller's groups; archived ones only with `?archived=true`. */
+export async function GET(req: Request) {
+  const currentUser = await getCurrentUser();
+  if (!currentUser) return unauthorized();
+
+  const includeArchived = new URL(req.url).searchParams.get("archived") === "true";
+  const groups = await prisma.group.findMany({
+    where: { ...memberGroupsWhere(currentUser.id), ...(includeArchived ? {} : { archivedAt: null }) },
+  });
   return NextResponse.json(groups);
 }
\ No newline at end of file
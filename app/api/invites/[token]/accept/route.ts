@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { acceptInvite } from "@/lib/groupInvites";
+
+/** Joins the invite's group with the signed-in account. */
+export async function POST(
+    req: Request,
+    context: { params: Promise<{ token: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { token } = await context.params;
+        const result = await acceptInvite(token, currentUser);
+        if ("error" in result) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error("Invite accept error:", error);
+        return NextResponse.json(
+            { error: "Failed to accept invite" },
+            { status: 500 }
+        );
+    }
+}
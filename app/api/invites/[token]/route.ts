@@ -0,0 +1,47 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { inviteAcceptanceError } from "@/lib/invites";
+
+/** What an invite link leads to, so the invitee can decide before joining. */
+export async function GET(
+    req: Request,
+    context: { params: Promise<{ token: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { token } = await context.params;
+        const invite = await prisma.groupInvite.findUnique({
+            where: { token },
+            include: { group: true, createdBy: true, placeholder: true },
+        });
+        if (!invite) {
+            return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+        }
+
+        const membership = await prisma.groupMember.findFirst({
+            where: { userId: currentUser.id, groupId: invite.groupId, leftAt: null },
+        });
+
+        return NextResponse.json({
+            groupId: invite.groupId,
+            groupName: invite.group.name,
+            invitedBy: invite.createdBy.name,
+            role: invite.role,
+            // Accepting takes over this placeholder's expenses and payments
+            placeholderName: invite.placeholder?.name ?? null,
+            expiresAt: invite.expiresAt,
+            alreadyMember: !!membership,
+            // Why the signed-in user can't accept it, if they can't
+            problem: membership ? null : inviteAcceptanceError(invite, currentUser.email, new Date()),
+        });
+    } catch (error) {
+        console.error("Invite fetch error:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch invite" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,74 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { forbidden, groupAccess } from "@/lib/groupAccess";
+import { canEditExpense } from "@/lib/roles";
+import { fromMinor } from "@/lib/money";
+import { describeSchedule, upcomingOccurrence } from "@/lib/recurrence";
+
+/**
+ * Pauses or resumes a recurring expense (`{ paused: boolean }`). Occurrences
+ * that fell while it was paused are skipped rather than charged on resume.
+ */
+export async function PATCH(
+    req: Request,
+    context: { params: Promise<{ recurringId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { recurringId } = await context.params;
+        const body = await req.json().catch(() => ({}));
+
+        if (typeof body.paused !== "boolean") {
+            return NextResponse.json({ error: "paused must be true or false" }, { status: 400 });
+        }
+
+        const existing = await prisma.recurringExpense.findUnique({
+            where: { id: recurringId },
+        });
+        if (!existing) {
+            return NextResponse.json({ error: "Recurring expense not found" }, { status: 404 });
+        }
+        const access = await groupAccess(currentUser.id, existing.groupId, "addExpenses");
+        if ("denied" in access) return access.denied;
+        if (!canEditExpense(access.membership.role, currentUser.id, existing)) {
+            return forbidden("Only admins can pause or resume other people's recurring expenses");
+        }
+        if (existing.paused === body.paused) {
+            return NextResponse.json(
+                { error: `Recurring expense is already ${body.paused ? "paused" : "active"}` },
+                { status: 409 }
+            );
+        }
+
+        const recurring = await prisma.$transaction(async (tx) => {
+            const updated = await tx.recurringExpense.update({
+                where: { id: recurringId },
+                data: body.paused
+                    ? { paused: true }
+                    : { paused: false, nextRunAt: upcomingOccurrence(existing, existing.nextRunAt, new Date()) },
+                include: { paidBy: true },
+            });
+
+            await tx.activityLog.create({
+                data: {
+                    groupId: updated.groupId,
+                    type: body.paused ? "RECURRING_EXPENSE_PAUSED" : "RECURRING_EXPENSE_RESUMED",
+                    message: `Recurring expense ${updated.description} was ${body.paused ? "paused" : "resumed"}`,
+                },
+            });
+
+            return updated;
+        });
+
+        return NextResponse.json({ ...recurring, amount: fromMinor(recurring.amount), schedule: describeSchedule(recurring) });
+    } catch (error) {
+        console.error("Recurring expense update error:", error);
+        return NextResponse.json(
+            { error: "Failed to update recurring expense" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,85 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { departedMembers, groupAccess } from "@/lib/groupAccess";
+import { formatMoney, fromMinor } from "@/lib/money";
+import { canVoidSettlement } from "@/lib/roles";
+
+/**
+ * Reverses a recorded payment. The row is kept (marked voided) so the history
+ * still shows it, but it no longer counts towards balances. Only the payer,
+ * the payee and admins can void a payment, and payments the app recorded itself
+ * (those with a `note`, e.g. when someone left or a cross-group settlement) can't
+ * be voided on their own, since they only balance together with others. Nor can
+ * payments to or from someone who has left, whose balance was settled when they went.
+ */
+export async function POST(
+    req: Request,
+    context: { params: Promise<{ settlementId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { settlementId } = await context.params;
+        const body = await req.json().catch(() => ({}));
+        const reason = typeof body.reason === "string" && body.reason.trim() ? body.reason.trim() : null;
+
+        const existing = await prisma.settlement.findUnique({
+            where: { id: settlementId },
+        });
+        if (!existing) {
+            return NextResponse.json({ error: "Settlement not found" }, { status: 404 });
+        }
+        const access = await groupAccess(currentUser.id, existing.groupId, "recordSettlements");
+        if ("denied" in access) return access.denied;
+        if (!canVoidSettlement(access.membership.role, currentUser.id, existing)) {
+            return NextResponse.json(
+                { error: "Only the people involved or an admin can void this payment" },
+                { status: 403 }
+            );
+        }
+        if (existing.note) {
+            return NextResponse.json(
+                { error: `This payment was recorded automatically and can't be voided on its own (${existing.note})` },
+                { status: 409 }
+            );
+        }
+        if (existing.voidedAt) {
+            return NextResponse.json({ error: "Settlement is already voided" }, { status: 409 });
+        }
+        const [departed] = await departedMembers(existing.groupId, [existing.fromUserId, existing.toUserId]);
+        if (departed) {
+            return NextResponse.json(
+                { error: `${departed.user.name} has left the group, so this payment can't be voided` },
+                { status: 409 }
+            );
+        }
+
+        const settlement = await prisma.$transaction(async (tx) => {
+            const voided = await tx.settlement.update({
+                where: { id: settlementId },
+                data: { voidedAt: new Date(), voidReason: reason },
+                include: { fromUser: true, toUser: true, group: true },
+            });
+
+            await tx.activityLog.create({
+                data: {
+                    groupId: voided.groupId,
+                    type: "SETTLEMENT_VOIDED",
+                    message: `Payment of ${formatMoney(voided.amount, voided.group.baseCurrency)} from ${voided.fromUser.name} to ${voided.toUser.name} was voided${reason ? `: ${reason}` : ""}`,
+                },
+            });
+
+            return voided;
+        });
+
+        return NextResponse.json({ ...settlement, amount: fromMinor(settlement.amount) });
+    } catch (error) {
+        console.error("Settlement void error:", error);
+        return NextResponse.json(
+            { error: "Failed to void payment" },
+            { status: 500 }
+        );
+    }
+}
@@ -1,18 +1,56 @@
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess } from "@/lib/groupAccess";
+import { formatMoney, fromMinor, toMinor } from "@/lib/money";
+import { parseUpiReference } from "@/lib/upi";
+import { FieldErrors } from "@/lib/expenses";
 
+/**
+ * Records a payment (`{ groupId, fromUserId, toUserId, amount, upiReference? }`).
+ * `upiReference` is the transaction reference from a UPI payment link, kept so
+ * the payment can be traced.
+ */
 export async function POST(req: Request) {
     try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
         const body = await req.json();
         const { groupId, fromUserId, toUserId, amount } = body;
 
-        if (!groupId || !fromUserId || !toUserId || !amount) {
+        if (!groupId || !fromUserId || !toUserId || amount === undefined) {
             return NextResponse.json(
                 { error: "groupId, fromUserId, toUserId, and amount are required." },
                 { status: 400 }
             );
         }
 
+        const fieldErrors: FieldErrors = {};
+        if (typeof amount !== "number" || !Number.isFinite(amount) || toMinor(amount) <= 0) {
+            fieldErrors.amount = "Amount must be greater than 0";
+        }
+        const reference = parseUpiReference(body.upiReference);
+        if ("error" in reference) {
+            fieldErrors.upiReference = reference.error;
+        }
+        if (Object.keys(fieldErrors).length > 0 || "error" in reference) {
+            return NextResponse.json({ error: "Invalid payment", fieldErrors }, { status: 400 });
+        }
+
+        const access = await groupAccess(currentUser.id, groupId, "recordSettlements");
+        if ("denied" in access) return access.denied;
+
+        const memberCount = await prisma.groupMember.count({
+            where: { groupId, userId: { in: [fromUserId, toUserId] }, leftAt: null },
+        });
+        if (fromUserId === toUserId || memberCount !== 2) {
+            return NextResponse.json(
+                { error: "fromUserId and toUserId must be two different members of the group" },
+                { status: 400 }
+            );
+        }
+
         // Wrap in a transaction to ensure atomicity
         const settlement = await prisma.$transaction(async (tx) => {
             const newSettlement = await tx.settlement.create({
@@ -20,11 +58,13 @@ export async function POST(req: Request) {
                     groupId,
                     fromUserId,
                     toUserId,
-                    amount: Number(amount),
+                    amount: toMinor(amount),
+                    upiReference: reference.upiReference,
                 },
                 include: {
                     fromUser: true,
                     toUser: true,
+                    group: true,
                 },
             });
 
@@ -32,14 +72,14 @@ export async function POST(req: Request) {
                 data: {
                     groupId,
                     type: "SETTLEMENT_CREATED",
-                    message: `${newSettlement.fromUser.name} paid ₹${newSettlement.amount} to ${newSettlement.toUser.name}`,
+                    message: `${newSettlement.fromUser.name} paid ${formatMoney(newSettlement.amount, newSettlement.group.baseCurrency)} to ${newSettlement.toUser.name}${reference.upiReference ? ` via UPI (ref ${reference.upiReference})` : ""}`,
                 },
             });
 
             return newSettlement;
         });
 
-        return NextResponse.json(settlement);
+        return NextResponse.json({ ...settlement, amount: fromMinor(settlement.amount) });
     } catch (error) {
         console.error("Settlement error:", error);
         return NextResponse.json(
@@ -0,0 +1,111 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { groupAccess, memberGroupsWhere } from "@/lib/groupAccess";
+import { loadPairLegs } from "@/lib/groupNetting";
+import { legSettlements, netPairLegs, NetTransfer } from "@/lib/netting";
+import { formatMoney, fromMinor } from "@/lib/money";
+
+const serializeTransfer = (transfer: NetTransfer) => ({
+    ...transfer,
+    amount: fromMinor(transfer.amount),
+    legs: transfer.legs.map((leg) => ({ ...leg, amount: fromMinor(leg.amount) })),
+});
+
+/** `userId`, if they share a group with the caller; anyone else is treated as unknown. */
+const findSharingUser = (callerId: string, userId: string) =>
+    prisma.user.findFirst({
+        where: { id: userId, groups: { some: { group: memberGroupsWhere(callerId) } } },
+    });
+
+/**
+ * Everything the caller and `userId` owe each other directly across the groups
+ * they share, netted into one suggested transfer per currency. A leg's
+ * `amount` is positive when the caller owes.
+ */
+export async function GET(
+    req: Request,
+    context: { params: Promise<{ userId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { userId } = await context.params;
+        if (userId === currentUser.id) {
+            return NextResponse.json({ error: "Pick someone other than yourself" }, { status: 400 });
+        }
+        const other = await findSharingUser(currentUser.id, userId);
+        if (!other) {
+            return NextResponse.json({ error: "User not found" }, { status: 404 });
+        }
+
+        const transfers = netPairLegs(currentUser.id, userId, await loadPairLegs(currentUser.id, userId));
+        return NextResponse.json({ userId, name: other.name, transfers: transfers.map(serializeTransfer) });
+    } catch (error) {
+        console.error("Netting error:", error);
+        return NextResponse.json({ error: "Failed to net balances" }, { status: 500 });
+    }
+}
+
+/**
+ * Records the net payment between the caller and `userId` (`{ currency? }`,
+ * every currency by default). Each group gets a settlement for its full leg,
+ * all in one transaction, so every group still reconciles on its own.
+ */
+export async function POST(
+    req: Request,
+    context: { params: Promise<{ userId: string }> }
+) {
+    try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) return unauthorized();
+
+        const { userId } = await context.params;
+        const body = await req.json().catch(() => ({}));
+        if (userId === currentUser.id) {
+            return NextResponse.json({ error: "Pick someone other than yourself" }, { status: 400 });
+        }
+        const other = await findSharingUser(currentUser.id, userId);
+        if (!other) {
+            return NextResponse.json({ error: "User not found" }, { status: 404 });
+        }
+
+        const transfers = netPairLegs(currentUser.id, userId, await loadPairLegs(currentUser.id, userId))
+            .filter((t) => !body.currency || t.currency === body.currency);
+        if (transfers.length === 0) {
+            return NextResponse.json({ error: `You and ${other.name} are settled up` }, { status: 409 });
+        }
+
+        for (const leg of transfers.flatMap((t) => t.legs)) {
+            const access = await groupAccess(currentUser.id, leg.groupId, "recordSettlements");
+            if ("denied" in access) return access.denied;
+        }
+
+        const names: Record<string, string> = { [currentUser.id]: currentUser.name, [userId]: other.name };
+        await prisma.$transaction(async (tx) => {
+            for (const transfer of transfers) {
+                const net = transfer.amount === 0
+                    ? "cancelled out"
+                    : `${names[transfer.fromUserId]} paid ${names[transfer.toUserId]} ${formatMoney(transfer.amount, transfer.currency)}`;
+                const note = `Part of a cross-group settlement: ${net}`;
+
+                for (const settlement of legSettlements(currentUser.id, userId, transfer)) {
+                    await tx.settlement.create({ data: { ...settlement, note } });
+                    await tx.activityLog.create({
+                        data: {
+                            groupId: settlement.groupId,
+                            type: "SETTLEMENT_CREATED",
+                            message: `${names[settlement.fromUserId]} paid ${formatMoney(settlement.amount, transfer.currency)} to ${names[settlement.toUserId]} (part of a cross-group settlement: ${net})`,
+                        },
+                    });
+                }
+            }
+        });
+
+        return NextResponse.json({ userId, name: other.name, transfers: transfers.map(serializeTransfer) });
+    } catch (error) {
+        console.error("Netting settlement error:", error);
+        return NextResponse.json({ error: "Failed to record the net payment" }, { status: 500 });
+    }
+}
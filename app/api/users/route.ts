@@ -1,28 +1,20 @@
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
-
-export async function POST(req: Request) {
-    try {
-        const body = await req.json();
-
-        const user = await prisma.user.create({
-            data: {
-                name: body.name,
-                email: body.email,
-            },
-        });
-
-        return NextResponse.json(user);
-    } catch (error) {
-        console.error(error);
-        return NextResponse.json(
-            { error: String(error) },
-            { status: 500 }
-        );
-    }
-}
+import { getCurrentUser, unauthorized } from "@/lib/currentUser";
+import { memberGroupsWhere } from "@/lib/groupAccess";
 
 export async function GET() {
-    const users = await prisma.user.findMany();
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return unauthorized();
+
+    // The caller plus everyone they share a group with
+    const users = await prisma.user.findMany({
+        where: {
+            OR: [
+                { id: currentUser.id },
+                { groups: { some: { group: memberGroupsWhere(currentUser.id) } } },
+            ],
+        },
+    });
     return NextResponse.json(users);
 }
\ No newline at end of file
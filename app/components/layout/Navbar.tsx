@@ -18,12 +18,12 @@ export function Navbar() {
                 </div>
 
                 <div className="flex items-center gap-4">
-                    {/* Placeholder for future Auth Button (e.g. Clerk/NextAuth UserButton) */}
-                    <div className="w-8 h-8 rounded-full bg-slate-100 border border-slate-200 flex items-center justify-center overflow-hidden hover:bg-slate-200 cursor-pointer transition-colors">
+                    {/* /me sends signed-out visitors on to /sign-in */}
+                    <Link href="/me" aria-label="Your account" className="w-8 h-8 rounded-full bg-slate-100 border border-slate-200 flex items-center justify-center overflow-hidden hover:bg-slate-200 cursor-pointer transition-colors">
                         <svg className="w-4 h-4 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                         </svg>
-                    </div>
+                    </Link>
                 </div>
             </Container>
         </nav>
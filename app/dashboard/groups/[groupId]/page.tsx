@@ -1,8 +1,14 @@
 "use client";
 
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useState, useMemo } from "react";
 import DebtGraph from "@/components/DebtGraph";
+import SplitEditor, { equalSplitDraft, isSplitReconciled, SplitDraft, splitPayload } from "@/components/SplitEditor";
+import { CURRENCIES, DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency";
+import { payerNames } from "@/lib/expenses";
+import { categoryBreakdown, CategoryOption, CUSTOM_CATEGORY_EMOJI, DEFAULT_CATEGORIES, DEFAULT_CATEGORY } from "@/lib/categories";
+import { canChangeRole, canEditExpense, canRemoveMember, GROUP_ROLES, GroupAction, GroupRole } from "@/lib/roles";
 
 interface Balance {
     userId: string;
@@ -11,18 +17,55 @@ interface Balance {
 }
 interface BalanceData {
     groupId: string;
+    currency: string;
     totalExpenses: number;
     perPersonShare: number;
     balances: Balance[];
+    unreconciledExpenses: { expenseId: string; description: string; issues: string[] }[];
 }
 interface Settlement {
     from: string;
     to: string;
+    fromId: string;
+    toId: string;
     amount: number;
 }
+interface PaymentIntent extends Settlement {
+    upiId: string | null;
+    link: string | null;
+    qrSvg: string | null;
+    unavailable: string | null;
+}
 interface SettlementData {
     groupId: string;
     settlements: Settlement[];
+    algorithm: "exact" | "greedy" | "pairwise";
+    rawEdgeCount: number;
+    transfersSaved: number;
+    residue: { userId: string; name: string; amount: number }[];
+}
+
+interface GroupInfo {
+    id: string;
+    name: string;
+    description: string | null;
+    emoji: string | null;
+    archivedAt: string | null;
+    members: { id: string; userId: string; name: string; placeholder: boolean; role: GroupRole; leftAt: string | null }[];
+    currentUserId: string;
+    role: GroupRole;
+    permissions: Record<GroupAction, boolean>;
+}
+
+interface Invite {
+    id: string;
+    email: string | null;
+    placeholderId: string | null;
+    role: GroupRole;
+    maxUses: number | null;
+    useCount: number;
+    expiresAt: string;
+    link: string;
 }
 
 interface ActivityLog {
@@ -37,13 +80,74 @@ interface Expense {
     id: string;
     description: string;
     amount: number;
+    currency: string;
+    baseAmount: number;
+    baseCurrency: string;
     groupId: string;
     createdAt: string;
     paidById: string;
+    splitType: string;
+    category: string;
     paidBy: { id: string; name: string };
+    payers: { userId: string; amount: number; user: { name: string } }[];
+    splits: { userId: string; amount: number }[];
+}
+
+interface RecurringExpense {
+    id: string;
+    description: string;
+    amount: number;
+    currency: string;
+    schedule: string;
+    nextRunAt: string;
+    paused: boolean;
+    paidById: string;
+    paidBy: { name: string };
+}
+
+interface ItemizedBreakdown {
+    items: { id: string; description: string; amount: number; participants: { user: { id: string; name: string } }[] }[];
+    taxAmount: number;
+    serviceCharge: number;
+    tipAmount: number;
+    breakdown: { userId: string; name: string; subtotal: number; tax: number; serviceCharge: number; tip: number; total: number }[];
 }
 
-const defaultForm = { description: "", amount: "", paidById: "" };
+// Split types the modal can edit; others (SHARES, ADJUSTMENT, ITEMIZED) are kept as they are
+const EDITABLE_SPLIT_TYPES = ["EQUAL", "EXACT", "PERCENT"];
+
+/** Rebuilds the split editor state from a saved expense. */
+function splitDraftFor(exp: Expense, members: { userId: string }[]): SplitDraft {
+    const userIds = exp.splits.length > 0 ? exp.splits.map((s) => s.userId) : members.map((m) => m.userId);
+    if (exp.splitType === "EXACT") {
+        return { splitType: "EXACT", userIds, values: Object.fromEntries(exp.splits.map((s) => [s.userId, String(s.amount)])) };
+    }
+    if (exp.splitType === "PERCENT") {
+        // Round to 2 decimals and let the last member absorb the rounding so the total stays 100
+        const percents = exp.splits.map((s) => Math.round((s.amount / exp.amount) * 10000) / 100);
+        if (percents.length > 0) {
+            percents[percents.length - 1] = Math.round((100 - percents.slice(0, -1).reduce((sum, p) => sum + p, 0)) * 100) / 100;
+        }
+        return { splitType: "PERCENT", userIds, values: Object.fromEntries(exp.splits.map((s, i) => [s.userId, String(percents[i])])) };
+    }
+    return { splitType: "EQUAL", userIds, values: {} };
+}
+
+// "placeholder" adds a friend without an account by name; `claim` invites someone to take a placeholder's place
+const defaultInviteForm = {
+    mode: "invite" as "invite" | "placeholder",
+    name: "",
+    email: "",
+    role: "MEMBER" as GroupRole,
+    multiUse: false,
+    expiresInDays: "7",
+    claim: null as { userId: string; name: string } | null,
+};
+
+const defaultForm = { description: "", amount: "", currency: DEFAULT_CURRENCY, paidById: "", category: DEFAULT_CATEGORY };
+
+// Sentinel option in the category picker that prompts for a new custom category
+const NEW_CATEGORY = "__new__";
 
 function Spinner({ className = "" }: { className?: string }) {
     return (
@@ -74,12 +178,38 @@ function Toast({ message, onDone }: { message: string; onDone: () => void }) {
     );
 }
 
+/** A member's role: a picker when the current role may change it, a plain label otherwise. */
+function RoleControl({ membership, actorRole, disabled, onChange }: {
+    membership: GroupInfo["members"][number] | undefined;
+    actorRole: GroupRole;
+    disabled: boolean;
+    onChange: (memberId: string, role: GroupRole) => void;
+}) {
+    if (!membership) return null;
+    const assignable = GROUP_ROLES.filter((role) => role === membership.role || canChangeRole(actorRole, membership.role, role));
+    if (assignable.length < 2) {
+        return <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{membership.role}</span>;
+    }
+    return (
+        <select
+            value={membership.role}
+            onChange={(e) => onChange(membership.id, e.target.value as GroupRole)}
+            disabled={disabled}
+            className="rounded-md border border-slate-200 bg-white px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-widest text-slate-500 focus:ring-1 focus:ring-indigo-500 focus:outline-none"
+        >
+            {assignable.map((role) => <option key={role} value={role}>{role}</option>)}
+        </select>
+    );
+}
+
 export default function GroupBalancesPage({
     params,
 }: {
     params: Promise<{ groupId: string }>;
 }) {
+    const router = useRouter();
     const [groupId, setGroupId] = useState<string | null>(null);
+    const [groupInfo, setGroupInfo] = useState<GroupInfo | null>(null);
     const [balanceData, setBalanceData] = useState<BalanceData | null>(null);
     const [settlementData, setSettlementData] = useState<SettlementData | null>(null);
     const [expenses, setExpenses] = useState<Expense[]>([]);
@@ -87,11 +217,23 @@ export default function GroupBalancesPage({
     const [refreshing, setRefreshing] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [activities, setActivities] = useState<ActivityLog[]>([]);
+    const [recurring, setRecurring] = useState<RecurringExpense[]>([]);
+    const [categories, setCategories] = useState<CategoryOption[]>(DEFAULT_CATEGORIES);
+    const [historyCategory, setHistoryCategory] = useState("");
+    const [togglingRecurringId, setTogglingRecurringId] = useState<string | null>(null);
+    const [changingRoleId, setChangingRoleId] = useState<string | null>(null);
     const [viewMode, setViewMode] = useState<"list" | "graph">("list");
 
     // Expense modal state
     const [modalOpen, setModalOpen] = useState(false);
+    const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+    const [deletingExpenseId, setDeletingExpenseId] = useState<string | null>(null);
+    const [historyError, setHistoryError] = useState<string | null>(null);
+    const [expandedExpenseId, setExpandedExpenseId] = useState<string | null>(null);
+    const [breakdowns, setBreakdowns] = useState<Record<string, ItemizedBreakdown>>({});
     const [form, setForm] = useState(defaultForm);
+    const [splitDraft, setSplitDraft] = useState<SplitDraft>({ splitType: "EQUAL", userIds: [], values: {} });
+    const [splitTouched, setSplitTouched] = useState(false);
     const [submitting, setSubmitting] = useState(false);
     const [fieldErrors, setFieldErrors] = useState<{
         description?: string; amount?: string; paidById?: string; server?: string;
@@ -99,9 +241,18 @@ export default function GroupBalancesPage({
 
     // Member modal state
     const [memberModalOpen, setMemberModalOpen] = useState(false);
-    const [memberForm, setMemberForm] = useState({ name: "", email: "" });
+    const [memberForm, setMemberForm] = useState(defaultInviteForm);
     const [memberSubmitting, setMemberSubmitting] = useState(false);
     const [memberFormError, setMemberFormError] = useState<string | null>(null);
+    const [createdInvite, setCreatedInvite] = useState<(Invite & { emailSent: boolean }) | null>(null);
+    const [invites, setInvites] = useState<Invite[]>([]);
+    const [revokingInviteId, setRevokingInviteId] = useState<string | null>(null);
+
+    // Removal modal state; `balance` is what the member is owed (negative when they owe)
+    const [removal, setRemoval] = useState<{ memberId: string; name: string; balance: number; leaving: boolean } | null>(null);
+    const [removalForm, setRemovalForm] = useState({ transferToUserId: "", reason: "" });
+    const [removalSubmitting, setRemovalSubmitting] = useState(false);
+    const [removalError, setRemovalError] = useState<string | null>(null);
 
     // Settlement modal state
     const [settlementModalOpen, setSettlementModalOpen] = useState(false);
@@ -111,6 +262,12 @@ export default function GroupBalancesPage({
         fromUserId?: string; toUserId?: string; amount?: string; server?: string;
     }>({});
 
+    // Pay modal state: the UPI link for one transfer in the plan
+    const [payment, setPayment] = useState<PaymentIntent | null>(null);
+    const [upiReference, setUpiReference] = useState("");
+    const [paymentSubmitting, setPaymentSubmitting] = useState(false);
+    const [paymentError, setPaymentError] = useState<string | null>(null);
+
     // Toast
     const [toast, setToast] = useState<string | null>(null);
 
@@ -131,7 +288,7 @@ export default function GroupBalancesPage({
                 if (!r.ok) throw new Error(`Settlements: HTTP ${r.status}`);
                 return r.json() as Promise<SettlementData>;
             }),
-            fetch(`/api/expenses`).then((r) => {
+            fetch(`/api/expenses?groupId=${id}`).then((r) => {
                 if (!r.ok) throw new Error(`Expenses: HTTP ${r.status}`);
                 return r.json() as Promise<Expense[]>;
             }),
@@ -139,15 +296,31 @@ export default function GroupBalancesPage({
                 if (!r.ok) throw new Error(`Activities: HTTP ${r.status}`);
                 return r.json() as Promise<ActivityLog[]>;
             }),
+            fetch(`/api/groups/${id}/recurring-expenses`).then((r) => {
+                if (!r.ok) throw new Error(`Recurring expenses: HTTP ${r.status}`);
+                return r.json() as Promise<RecurringExpense[]>;
+            }),
+            fetch(`/api/groups/${id}/categories`).then((r) => {
+                if (!r.ok) throw new Error(`Categories: HTTP ${r.status}`);
+                return r.json() as Promise<CategoryOption[]>;
+            }),
+            fetch(`/api/groups/${id}`).then((r) => {
+                if (!r.ok) throw new Error(`Group: HTTP ${r.status}`);
+                return r.json() as Promise<GroupInfo>;
+            }),
+            // Only members who manage the group may list invites; everyone else just sees none
+            fetch(`/api/groups/${id}/invites`).then((r) => (r.ok ? r.json() as Promise<Invite[]> : [])),
         ])
-            .then(([bal, set, exps, acts]) => {
+            .then(([bal, set, exps, acts, recs, cats, info, invs]) => {
+                setGroupInfo(info);
+                setInvites(invs);
+                setCategories(cats);
                 setBalanceData(bal);
                 setSettlementData(set);
                 setActivities(acts);
-                // Filter client-side (backend returns all expenses unfiltered)
+                setRecurring(recs);
                 setExpenses(
                     exps
-                        .filter((e) => e.groupId === id)
                         .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
                 );
             })
@@ -165,27 +338,231 @@ export default function GroupBalancesPage({
     const analytics = useMemo(() => {
         const totals: Record<string, { name: string; amount: number }> = {};
         expenses.forEach((exp) => {
-            if (!totals[exp.paidById]) {
-                totals[exp.paidById] = { name: exp.paidBy?.name || "Unknown", amount: 0 };
-            }
-            totals[exp.paidById].amount += Number(exp.amount);
+            // Older expenses have no payer rows: paidBy covered the whole bill
+            const payers = exp.payers.length > 0
+                ? exp.payers
+                : [{ userId: exp.paidById, amount: exp.amount, user: exp.paidBy }];
+            payers.forEach((payer) => {
+                if (!totals[payer.userId]) {
+                    totals[payer.userId] = { name: payer.user?.name || "Unknown", amount: 0 };
+                }
+                totals[payer.userId].amount += Number(exp.baseAmount) * (payer.amount / exp.amount);
+            });
         });
         const leaderboard = Object.values(totals).sort((a, b) => b.amount - a.amount);
         return {
             leaderboard,
             topContributor: leaderboard.length > 0 ? leaderboard[0] : null,
+            byCategory: categoryBreakdown(expenses.map((exp) => ({ category: exp.category, amount: Number(exp.baseAmount) }))),
         };
     }, [expenses]);
 
+    const filteredExpenses = historyCategory
+        ? expenses.filter((exp) => exp.category === historyCategory)
+        : expenses;
+
+    const categoryEmoji = (name: string) => categories.find((c) => c.name === name)?.emoji ?? CUSTOM_CATEGORY_EMOJI;
+
+    // Controls the current role can't use are hidden; the API enforces the same rules
+    const allowed = (action: GroupAction) => groupInfo?.permissions[action] ?? false;
+    const canEdit = (exp: { paidById: string; payers?: { userId: string }[] }) =>
+        !!groupInfo && !groupInfo.archivedAt && canEditExpense(groupInfo.role, groupInfo.currentUserId, exp);
+    const membershipOf = (userId: string) => groupInfo?.members.find((m) => m.userId === userId);
+    const formerMembers = groupInfo?.members.filter((m) => m.leftAt) ?? [];
+    // Anyone but the owner may leave; removing others follows canRemoveMember
+    const canRemove = (userId: string) => {
+        const membership = membershipOf(userId);
+        if (!groupInfo || !membership || membership.role === "OWNER") return false;
+        return userId === groupInfo.currentUserId || canRemoveMember(groupInfo.role, membership.role);
+    };
+
+    const handleRoleChange = async (memberId: string, role: GroupRole) => {
+        if (!groupId) return;
+        setChangingRoleId(memberId);
+        setHistoryError(null);
+        try {
+            const res = await fetch(`/api/group-members/${memberId}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ role }),
+            });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            setToast("Role updated");
+            fetchData(groupId, true);
+        } catch (err: unknown) {
+            setHistoryError(err instanceof Error ? err.message : "Failed to change role");
+        } finally {
+            setChangingRoleId(null);
+        }
+    };
+
+    const openRemoval = (member: Balance) => {
+        const membership = membershipOf(member.userId);
+        if (!membership || !groupInfo) return;
+        setRemoval({
+            memberId: membership.id,
+            name: member.name,
+            balance: Number(member.balance),
+            leaving: member.userId === groupInfo.currentUserId,
+        });
+        setRemovalForm({ transferToUserId: "", reason: "" });
+        setRemovalError(null);
+    };
+
+    const handleRemovalSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!removal || !groupId) return;
+        const force = removal.balance !== 0;
+        if (force && !removalForm.reason.trim()) { setRemovalError("Say why they're leaving before they're settled up."); return; }
+        setRemovalSubmitting(true);
+        setRemovalError(null);
+        try {
+            const res = await fetch(`/api/group-members/${removal.memberId}`, {
+                method: "DELETE",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(force
+                    ? { force, reason: removalForm.reason, transferToUserId: removalForm.transferToUserId || undefined }
+                    : {}),
+            });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            if (removal.leaving) {
+                router.replace("/dashboard");
+                return;
+            }
+            setRemoval(null);
+            setToast(`${removal.name} was removed from the group`);
+            fetchData(groupId, true);
+        } catch (err: unknown) {
+            setRemovalError(err instanceof Error ? err.message : "Failed to remove member");
+        } finally {
+            setRemovalSubmitting(false);
+        }
+    };
+
+    const handleCategoryChange = async (value: string) => {
+        if (value !== NEW_CATEGORY) {
+            setForm((f) => ({ ...f, category: value }));
+            return;
+        }
+        const name = window.prompt("Name the new category")?.trim();
+        if (!name || !groupId) return;
+        try {
+            const res = await fetch(`/api/groups/${groupId}/categories`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ name }),
+            });
+            const body = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`);
+            setCategories((prev) => [...prev, { name: body.name, emoji: body.emoji || CUSTOM_CATEGORY_EMOJI, custom: true }]);
+            setForm((f) => ({ ...f, category: body.name }));
+        } catch (err: unknown) {
+            setFieldErrors((fe) => ({ ...fe, server: err instanceof Error ? err.message : "Failed to add category" }));
+        }
+    };
+
     const openModal = () => {
-        setForm({ ...defaultForm, paidById: balanceData?.balances[0]?.userId ?? "" });
+        setEditingExpense(null);
+        setForm({
+            ...defaultForm,
+            currency: balanceData?.currency ?? DEFAULT_CURRENCY,
+            paidById: balanceData?.balances[0]?.userId ?? "",
+        });
+        setSplitDraft(equalSplitDraft(balanceData?.balances ?? []));
+        setSplitTouched(false);
         setFieldErrors({});
         setModalOpen(true);
     };
 
-    const openMemberModal = () => {
-        setMemberForm({ name: "", email: "" });
+    const openEditModal = (exp: Expense) => {
+        setEditingExpense(exp);
+        setForm({
+            description: exp.description,
+            amount: String(exp.amount),
+            currency: exp.currency,
+            paidById: exp.paidById,
+            category: exp.category,
+        });
+        setSplitDraft(splitDraftFor(exp, balanceData?.balances ?? []));
+        setSplitTouched(false);
+        setFieldErrors({});
+        setModalOpen(true);
+    };
+
+    const handleDeleteExpense = async (exp: Expense) => {
+        if (!groupId) return;
+        if (!window.confirm(`Delete "${exp.description}"? Balances will be recalculated.`)) return;
+        setDeletingExpenseId(exp.id);
+        setHistoryError(null);
+        try {
+            const res = await fetch(`/api/expenses/${exp.id}`, { method: "DELETE" });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            setToast(`"${exp.description}" deleted`);
+            fetchData(groupId, true);
+        } catch (err: unknown) {
+            setHistoryError(err instanceof Error ? err.message : "Failed to delete expense");
+        } finally {
+            setDeletingExpenseId(null);
+        }
+    };
+
+    const toggleBreakdown = async (exp: Expense) => {
+        if (expandedExpenseId === exp.id) {
+            setExpandedExpenseId(null);
+            return;
+        }
+        setExpandedExpenseId(exp.id);
+        setHistoryError(null);
+        try {
+            const res = await fetch(`/api/expenses/${exp.id}`);
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            const detail: ItemizedBreakdown = await res.json();
+            setBreakdowns((prev) => ({ ...prev, [exp.id]: detail }));
+        } catch (err: unknown) {
+            setExpandedExpenseId(null);
+            setHistoryError(err instanceof Error ? err.message : "Failed to load breakdown");
+        }
+    };
+
+    const toggleRecurring = async (rec: RecurringExpense) => {
+        if (!groupId) return;
+        setTogglingRecurringId(rec.id);
+        setHistoryError(null);
+        try {
+            const res = await fetch(`/api/recurring-expenses/${rec.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ paused: !rec.paused }),
+            });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            setToast(`"${rec.description}" ${rec.paused ? "resumed" : "paused"}`);
+            fetchData(groupId, true);
+        } catch (err: unknown) {
+            setHistoryError(err instanceof Error ? err.message : "Failed to update recurring expense");
+        } finally {
+            setTogglingRecurringId(null);
+        }
+    };
+
+    const openMemberModal = (claim: { userId: string; name: string } | null = null) => {
+        setMemberForm({ ...defaultInviteForm, claim });
         setMemberFormError(null);
+        setCreatedInvite(null);
         setMemberModalOpen(true);
     };
 
@@ -198,46 +575,75 @@ export default function GroupBalancesPage({
     const handleMemberSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!groupId) return;
+        const email = memberForm.email.trim();
         const name = memberForm.name.trim();
-        if (!name) { setMemberFormError("Name is required."); return; }
+        if (memberForm.mode === "placeholder" && !name) { setMemberFormError("Name is required."); return; }
         setMemberSubmitting(true);
         setMemberFormError(null);
         try {
-            // Step 1: create user (email is required by DB; generate placeholder if blank)
-            const email = memberForm.email.trim()
-                || `${name.toLowerCase().replace(/\s+/g, ".")}@yoursplit.local`;
-            const userRes = await fetch("/api/users", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ name, email }),
-            });
-            if (!userRes.ok) {
-                const body = await userRes.json().catch(() => ({}));
-                throw new Error(body.error ?? `Users API: HTTP ${userRes.status}`);
+            if (memberForm.mode === "placeholder") {
+                const res = await fetch(`/api/groups/${groupId}/placeholders`, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ name }),
+                });
+                if (!res.ok) {
+                    const body = await res.json().catch(() => ({}));
+                    throw new Error(body.error ?? `HTTP ${res.status}`);
+                }
+                setMemberModalOpen(false);
+                setToast(`${name} added to group`);
+                fetchData(groupId, true);
+                return;
             }
-            const user = await userRes.json();
 
-            // Step 2: add to group
-            const memberRes = await fetch("/api/group-members", {
+            const res = await fetch(`/api/groups/${groupId}/invites`, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ groupId, userId: user.id }),
+                body: JSON.stringify({
+                    email: email || undefined,
+                    placeholderId: memberForm.claim?.userId,
+                    role: memberForm.role,
+                    // Email invites and claims are always single-use
+                    maxUses: !email && !memberForm.claim && memberForm.multiUse ? null : 1,
+                    expiresInDays: Number(memberForm.expiresInDays),
+                }),
             });
-            if (!memberRes.ok) {
-                const body = await memberRes.json().catch(() => ({}));
-                throw new Error(body.error ?? `Group-members API: HTTP ${memberRes.status}`);
-            }
+            const body = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`);
 
-            setMemberModalOpen(false);
-            setToast(`${name} added to group`);
+            setCreatedInvite(body);
             fetchData(groupId, true);
         } catch (err: unknown) {
-            setMemberFormError(err instanceof Error ? err.message : "Failed to add member");
+            setMemberFormError(err instanceof Error ? err.message : "Failed to create invite");
         } finally {
             setMemberSubmitting(false);
         }
     };
 
+    const handleRevokeInvite = async (invite: Invite) => {
+        if (!groupId) return;
+        if (!window.confirm(`Revoke the invite for ${invite.email ?? "this link"}? It will stop working immediately.`)) return;
+        setRevokingInviteId(invite.id);
+        setHistoryError(null);
+        try {
+            const res = await fetch(`/api/groups/${groupId}/invites/${invite.id}/revoke`, { method: "POST" });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            setToast("Invite revoked");
+            fetchData(groupId, true);
+        } catch (err: unknown) {
+            setHistoryError(err instanceof Error ? err.message : "Failed to revoke invite");
+        } finally {
+            setRevokingInviteId(null);
+        }
+    };
+
+    const splitEditable = !editingExpense || EDITABLE_SPLIT_TYPES.includes(editingExpense.splitType);
+    const splitReady = !splitEditable || isSplitReconciled(splitDraft, parseFloat(form.amount));
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!groupId) return;
@@ -250,29 +656,60 @@ export default function GroupBalancesPage({
         if (!form.paidById) errs.paidById = "Select who paid.";
         if (Object.keys(errs).length > 0) { setFieldErrors(errs); return; }
 
+        // Splits only go out when they could have changed, so saved custom splits are kept otherwise
+        const amountChanged = !editingExpense || amt !== Number(editingExpense.amount);
+        const sendSplits = splitEditable && (!editingExpense || splitTouched || amountChanged);
+        if (sendSplits && !isSplitReconciled(splitDraft, amt)) {
+            setFieldErrors({ server: "The split must add up to the full amount before saving." });
+            return;
+        }
+
         setSubmitting(true);
         setFieldErrors({});
         try {
-            const res = await fetch("/api/expenses", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    description: form.description.trim(),
-                    amount: amt,
-                    paidById: form.paidById,
-                    groupId,
-                }),
-            });
+            const details = {
+                description: form.description.trim(),
+                currency: form.currency,
+                category: form.category,
+                paidById: form.paidById,
+                ...(amountChanged && { amount: amt }),
+                ...(sendSplits && { splitType: splitDraft.splitType, splits: splitPayload(splitDraft) }),
+            };
+            const res = editingExpense
+                ? await fetch(`/api/expenses/${editingExpense.id}`, {
+                    method: "PATCH",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify(details),
+                })
+                : await fetch("/api/expenses", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ ...details, groupId }),
+                });
             if (!res.ok) {
                 const body = await res.json().catch(() => ({}));
+                if (body.fieldErrors) {
+                    // Fields the form doesn't show (splits, currency, …) are summarised under the form
+                    const { description, amount, paidById, ...rest } = body.fieldErrors as Record<string, string>;
+                    setFieldErrors({
+                        description,
+                        amount,
+                        paidById,
+                        server: Object.values(rest).join(" ") || undefined,
+                    });
+                    return;
+                }
                 throw new Error(body.error ?? `HTTP ${res.status}`);
             }
             setModalOpen(false);
+            setEditingExpense(null);
             setForm(defaultForm);  // explicit clear
-            setToast(`"${form.description.trim()}" added successfully`);
+            setToast(editingExpense
+                ? `"${details.description}" updated`
+                : `"${details.description}" added successfully`);
             fetchData(groupId, true);
         } catch (err: unknown) {
-            setFieldErrors({ server: err instanceof Error ? err.message : "Failed to add expense" });
+            setFieldErrors({ server: err instanceof Error ? err.message : "Failed to save expense" });
         } finally {
             setSubmitting(false);
         }
@@ -328,13 +765,64 @@ export default function GroupBalancesPage({
         }
     };
 
+    const openPayment = async (transfer: Settlement) => {
+        if (!groupId) return;
+        setUpiReference("");
+        setPaymentError(null);
+        setPayment({ ...transfer, upiId: null, link: null, qrSvg: null, unavailable: null });
+        try {
+            const res = await fetch(`/api/groups/${groupId}/payment-intents`);
+            const body = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`);
+            const intent = (body.intents as PaymentIntent[]).find((i) => i.fromId === transfer.fromId && i.toId === transfer.toId);
+            if (!intent) throw new Error("This transfer is no longer in the plan");
+            setPayment(intent);
+        } catch (err: unknown) {
+            setPaymentError(err instanceof Error ? err.message : "Failed to prepare the payment link");
+        }
+    };
+
+    const handleMarkPaid = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!groupId || !payment) return;
+        setPaymentSubmitting(true);
+        setPaymentError(null);
+        try {
+            const res = await fetch("/api/settlements", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    groupId,
+                    fromUserId: payment.fromId,
+                    toUserId: payment.toId,
+                    amount: payment.amount,
+                    upiReference: upiReference.trim() || undefined,
+                }),
+            });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            setPayment(null);
+            setToast("Payment recorded successfully!");
+            fetchData(groupId, true);
+        } catch (err: unknown) {
+            setPaymentError(err instanceof Error ? err.message : "Failed to record payment");
+        } finally {
+            setPaymentSubmitting(false);
+        }
+    };
+
+    const currency = balanceData?.currency ?? DEFAULT_CURRENCY;
+    const money = (amount: number) => formatCurrency(Number(amount), currency);
+
     const balanceColor = (b: number) =>
         b > 0 ? "text-emerald-600" : b < 0 ? "text-red-600" : "text-slate-500";
     const balanceLabel = (b: number) =>
         b > 0
-            ? `gets back ₹${b.toFixed(2)}`
+            ? `gets back ${money(b)}`
             : b < 0
-                ? `owes ₹${Math.abs(b).toFixed(2)}`
+                ? `owes ${money(Math.abs(b))}`
                 : "settled up";
 
     return (
@@ -382,9 +870,26 @@ export default function GroupBalancesPage({
                                     </span>
                                     Group Balances
                                 </h1>
+                                {groupInfo && (
+                                    <p className="text-base text-slate-700 font-bold mt-3">
+                                        {groupInfo.emoji && <span className="mr-1.5">{groupInfo.emoji}</span>}
+                                        {groupInfo.name}
+                                        {groupInfo.description && <span className="block text-sm text-slate-500 font-medium mt-0.5">{groupInfo.description}</span>}
+                                    </p>
+                                )}
                                 <p className="text-xs text-slate-500 mt-2 font-mono bg-slate-100 px-2.5 py-1 rounded inline-block border border-slate-200 uppercase tracking-widest font-semibold">
                                     ID: {balanceData.groupId}
                                 </p>
+                                {groupInfo && (
+                                    <p className="text-xs text-indigo-600 mt-2 ml-2 font-bold bg-indigo-50 px-2.5 py-1 rounded inline-block border border-indigo-100 uppercase tracking-widest">
+                                        {groupInfo.role}
+                                    </p>
+                                )}
+                                {groupInfo?.archivedAt && (
+                                    <p className="text-xs text-amber-700 mt-2 ml-2 font-bold bg-amber-50 px-2.5 py-1 rounded inline-block border border-amber-100 uppercase tracking-widest">
+                                        Archived
+                                    </p>
+                                )}
                             </div>
                             <div className="flex flex-wrap items-center justify-end gap-2">
                                 <a
@@ -398,28 +903,54 @@ export default function GroupBalancesPage({
                                     </svg>
                                     Export
                                 </a>
-                                <button
-                                    onClick={openMemberModal}
-                                    disabled={refreshing}
-                                    className="rounded-lg border border-slate-200 bg-white hover:bg-slate-50 py-2 px-4 shadow-sm text-sm font-bold text-slate-700 transition-colors disabled:opacity-50"
-                                >
-                                    + Add Member
-                                </button>
-                                <button
-                                    onClick={openSettlementModal}
-                                    disabled={refreshing}
-                                    className="rounded-lg border border-slate-200 bg-white hover:bg-slate-50 py-2 px-4 shadow-sm text-sm font-bold text-slate-700 transition-colors disabled:opacity-50"
+                                <a
+                                    href={`/api/groups/${groupId}/export?format=csv`}
+                                    className="rounded-lg border border-slate-200 bg-white hover:bg-slate-50 py-2 px-3 shadow-sm text-sm font-bold text-slate-700 transition-colors"
                                 >
-                                    Record Payment
-                                </button>
-                                <button
-                                    onClick={openModal}
-                                    disabled={refreshing}
-                                    className="flex items-center gap-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 active:bg-indigo-700 shadow-sm hover:shadow-md disabled:opacity-50 transition-colors px-4 py-2 text-sm font-bold text-white"
+                                    Expenses CSV
+                                </a>
+                                <a
+                                    href={`/api/groups/${groupId}/export?format=csv&table=settlements`}
+                                    className="rounded-lg border border-slate-200 bg-white hover:bg-slate-50 py-2 px-3 shadow-sm text-sm font-bold text-slate-700 transition-colors"
                                 >
-                                    {refreshing ? <Spinner className="w-4 h-4" /> : null}
-                                    + Add Expense
-                                </button>
+                                    Payments CSV
+                                </a>
+                                {(allowed("renameGroup") || allowed("deleteGroup")) && (
+                                    <Link
+                                        href={`/dashboard/groups/${groupId}/settings`}
+                                        className="rounded-lg border border-slate-200 bg-white hover:bg-slate-50 py-2 px-4 shadow-sm text-sm font-bold text-slate-700 transition-colors"
+                                    >
+                                        Settings
+                                    </Link>
+                                )}
+                                {allowed("manageMembers") && (
+                                    <button
+                                        onClick={() => openMemberModal()}
+                                        disabled={refreshing}
+                                        className="rounded-lg border border-slate-200 bg-white hover:bg-slate-50 py-2 px-4 shadow-sm text-sm font-bold text-slate-700 transition-colors disabled:opacity-50"
+                                    >
+                                        + Add Member
+                                    </button>
+                                )}
+                                {allowed("recordSettlements") && (
+                                    <button
+                                        onClick={openSettlementModal}
+                                        disabled={refreshing}
+                                        className="rounded-lg border border-slate-200 bg-white hover:bg-slate-50 py-2 px-4 shadow-sm text-sm font-bold text-slate-700 transition-colors disabled:opacity-50"
+                                    >
+                                        Record Payment
+                                    </button>
+                                )}
+                                {allowed("addExpenses") && (
+                                    <button
+                                        onClick={openModal}
+                                        disabled={refreshing}
+                                        className="flex items-center gap-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 active:bg-indigo-700 shadow-sm hover:shadow-md disabled:opacity-50 transition-colors px-4 py-2 text-sm font-bold text-white"
+                                    >
+                                        {refreshing ? <Spinner className="w-4 h-4" /> : null}
+                                        + Add Expense
+                                    </button>
+                                )}
                             </div>
                         </div>
 
@@ -434,7 +965,7 @@ export default function GroupBalancesPage({
                                     </svg>
                                     Total Expenses
                                 </p>
-                                <p className="text-4xl font-extrabold tracking-tight text-slate-900 drop-shadow-sm">₹{Number(balanceData.totalExpenses).toFixed(2)}</p>
+                                <p className="text-4xl font-extrabold tracking-tight text-slate-900 drop-shadow-sm">{money(balanceData.totalExpenses)}</p>
                             </div>
                             <div className="border-l border-slate-100 pl-8 relative z-10">
                                 <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mb-2 flex items-center gap-2">
@@ -443,13 +974,13 @@ export default function GroupBalancesPage({
                                     </svg>
                                     Per Person
                                 </p>
-                                <p className="text-4xl font-extrabold tracking-tight text-slate-700 drop-shadow-sm">₹{Number(balanceData.perPersonShare).toFixed(2)}</p>
+                                <p className="text-4xl font-extrabold tracking-tight text-slate-700 drop-shadow-sm">{money(balanceData.perPersonShare)}</p>
                             </div>
                         </div>
 
                         {/* Insights strip */}
                         <div className="rounded-xl border border-slate-200 bg-slate-50 px-6 py-5 mb-10 grid grid-cols-3 divide-x divide-slate-200 shadow-sm">
-                            <div className="pr-5 group cursor-pointer" onClick={openMemberModal}>
+                            <div className="pr-5 group cursor-pointer" onClick={() => allowed("manageMembers") && openMemberModal()}>
                                 <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mb-1 shadow-sm group-hover:text-indigo-600 transition-colors">Members</p>
                                 <p className="text-2xl font-bold text-slate-700 group-hover:text-slate-900 transition-colors">{balanceData.balances.length}</p>
                             </div>
@@ -467,6 +998,19 @@ export default function GroupBalancesPage({
                             </div>
                         </div>
 
+                        {balanceData.unreconciledExpenses.length > 0 && (
+                            <div className="rounded-xl border border-amber-200 bg-amber-50 px-5 py-4 mb-10 shadow-sm">
+                                <p className="text-xs text-amber-700 font-bold uppercase tracking-widest mb-2">Expenses that don&apos;t add up</p>
+                                <ul className="space-y-1 text-sm text-amber-900">
+                                    {balanceData.unreconciledExpenses.map((item) => (
+                                        <li key={item.expenseId}>
+                                            <span className="font-bold">{item.description}</span>: {item.issues.join("; ")}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
                         {/* No expenses empty state OR member/settlement sections */}
                         {balanceData.totalExpenses === 0 ? (
                             <div className="rounded-3xl border border-indigo-100 bg-white px-8 py-20 text-center shadow-md shadow-indigo-500/5 relative overflow-hidden mt-8">
@@ -478,15 +1022,17 @@ export default function GroupBalancesPage({
                                 <p className="text-base text-slate-500 max-w-sm mx-auto leading-relaxed mb-8 font-medium">
                                     Add the first expense to start tracking who owes what across the group effortlessly.
                                 </p>
-                                <button
-                                    onClick={openModal}
-                                    className="rounded-full bg-indigo-600 hover:bg-indigo-500 active:scale-95 shadow-sm hover:shadow-md transition-all duration-300 px-8 py-3.5 text-base font-bold text-white flex items-center gap-2 mx-auto"
-                                >
-                                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
-                                    </svg>
-                                    Add First Expense
-                                </button>
+                                {allowed("addExpenses") && (
+                                    <button
+                                        onClick={openModal}
+                                        className="rounded-full bg-indigo-600 hover:bg-indigo-500 active:scale-95 shadow-sm hover:shadow-md transition-all duration-300 px-8 py-3.5 text-base font-bold text-white flex items-center gap-2 mx-auto"
+                                    >
+                                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+                                        </svg>
+                                        Add First Expense
+                                    </button>
+                                )}
                             </div>
                         ) : (
                             <>
@@ -500,7 +1046,7 @@ export default function GroupBalancesPage({
                                             </div>
                                             <div className="text-right">
                                                 <p className="text-xs font-semibold text-indigo-400 mb-0.5">Total Spent</p>
-                                                <p className="text-indigo-600 font-extrabold text-xl">₹{Number(analytics.topContributor.amount).toFixed(2)}</p>
+                                                <p className="text-indigo-600 font-extrabold text-xl">{money(analytics.topContributor.amount)}</p>
                                             </div>
                                         </div>
                                     )}
@@ -511,10 +1057,34 @@ export default function GroupBalancesPage({
                                                     <span className="text-sm text-slate-400 font-bold w-4">{idx + 1}.</span>
                                                     <span className="text-slate-700 font-semibold">{user.name}</span>
                                                 </div>
-                                                <span className="text-slate-900 font-bold">₹{Number(user.amount).toFixed(2)}</span>
+                                                <span className="text-slate-900 font-bold">{money(user.amount)}</span>
                                             </li>
                                         ))}
                                     </ul>
+                                    {analytics.byCategory.length > 0 && (
+                                        <div className="border-t border-slate-200 px-5 py-4">
+                                            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mb-3">By Category</p>
+                                            <ul className="space-y-2.5">
+                                                {analytics.byCategory.map((c) => (
+                                                    <li key={c.category}>
+                                                        <div className="flex items-center justify-between text-sm">
+                                                            <span className="text-slate-700 font-semibold">
+                                                                {categoryEmoji(c.category)} {c.category}
+                                                                <span className="text-slate-400 font-medium"> · {c.count}</span>
+                                                            </span>
+                                                            <span className="text-slate-900 font-bold tabular-nums">{money(c.amount)}</span>
+                                                        </div>
+                                                        <div className="mt-1 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                                                            <div
+                                                                className="h-full rounded-full bg-indigo-500"
+                                                                style={{ width: `${balanceData.totalExpenses > 0 ? (c.amount / balanceData.totalExpenses) * 100 : 0}%` }}
+                                                            />
+                                                        </div>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    )}
                                 </div>
 
                                 <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mb-3">Members</p>
@@ -525,18 +1095,55 @@ export default function GroupBalancesPage({
                                             className="flex items-center justify-between rounded-xl border border-slate-200 bg-white shadow-sm px-5 py-4 hover:bg-slate-50 hover:border-indigo-200 hover:-translate-y-0.5 transition-all duration-300"
                                         >
                                             <div>
-                                                <p className="font-bold text-slate-900 text-base">{member.name}</p>
+                                                <p className="font-bold text-slate-900 text-base flex items-center gap-2">
+                                                    {member.name}
+                                                    {groupInfo && (
+                                                        <RoleControl
+                                                            membership={membershipOf(member.userId)}
+                                                            actorRole={groupInfo.role}
+                                                            disabled={refreshing || changingRoleId !== null}
+                                                            onChange={handleRoleChange}
+                                                        />
+                                                    )}
+                                                    {membershipOf(member.userId)?.placeholder && (
+                                                        <span className="text-[10px] font-bold uppercase tracking-widest text-amber-600 bg-amber-50 border border-amber-100 rounded px-1.5 py-0.5">
+                                                            Not signed up
+                                                        </span>
+                                                    )}
+                                                </p>
                                                 <p className={`text-sm mt-0.5 font-semibold ${balanceColor(member.balance)}`}>
                                                     {balanceLabel(member.balance)}
+                                                    {membershipOf(member.userId)?.placeholder && allowed("manageMembers") && (
+                                                        <button
+                                                            onClick={() => openMemberModal({ userId: member.userId, name: member.name })}
+                                                            className="ml-3 text-xs font-bold text-slate-500 hover:text-indigo-600 transition-colors"
+                                                        >
+                                                            Invite to claim
+                                                        </button>
+                                                    )}
+                                                    {canRemove(member.userId) && (
+                                                        <button
+                                                            onClick={() => openRemoval(member)}
+                                                            className="ml-3 text-xs font-bold text-slate-500 hover:text-red-600 transition-colors"
+                                                        >
+                                                            {member.userId === groupInfo?.currentUserId ? "Leave group" : "Remove"}
+                                                        </button>
+                                                    )}
                                                 </p>
                                             </div>
                                             <span className={`text-lg font-bold tabular-nums tracking-tight ${balanceColor(member.balance)}`}>
-                                                {Number(member.balance) > 0 ? "+" : ""}₹{Number(member.balance).toFixed(2)}
+                                                {Number(member.balance) > 0 ? "+" : ""}{money(member.balance)}
                                             </span>
                                         </li>
                                     ))}
                                 </ul>
 
+                                {formerMembers.length > 0 && (
+                                    <p className="-mt-5 mb-8 text-xs text-slate-500 font-semibold">
+                                        Former members: {formerMembers.map((m) => m.name).join(", ")}
+                                    </p>
+                                )}
+
                                 <div className="flex items-center justify-between mb-4">
                                     <p className="text-xs text-slate-500 font-bold uppercase tracking-widest">Settlement Plan</p>
                                     <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-lg border border-slate-200">
@@ -554,6 +1161,14 @@ export default function GroupBalancesPage({
                                         </button>
                                     </div>
                                 </div>
+                                {viewMode === "list" && settlementData.transfersSaved > 0 && (
+                                    <p className="text-xs text-slate-500 font-semibold mb-2">
+                                        {settlementData.settlements.length} transfer{settlementData.settlements.length === 1 ? "" : "s"} instead of {settlementData.rawEdgeCount}
+                                        {" "}({settlementData.algorithm === "exact"
+                                            ? "fewest possible"
+                                            : settlementData.algorithm === "greedy" ? "simplified greedily" : "only between people who owe each other"})
+                                    </p>
+                                )}
                                 {viewMode === "graph" ? (
                                     <div className="mt-2 animate-in fade-in zoom-in-95 duration-300">
                                         <DebtGraph groupId={groupId as string} />
@@ -574,43 +1189,253 @@ export default function GroupBalancesPage({
                                                     <span className="text-slate-400 font-bold hidden sm:inline">→</span>
                                                     <span className="font-bold text-emerald-600">{s.to}</span>
                                                 </div>
-                                                <span className="text-slate-900 font-bold tracking-tight tabular-nums">
-                                                    ₹{Number(s.amount).toFixed(2)}
-                                                </span>
+                                                <div className="flex items-center gap-3">
+                                                    <span className="text-slate-900 font-bold tracking-tight tabular-nums">
+                                                        {money(s.amount)}
+                                                    </span>
+                                                    {allowed("recordSettlements") && (
+                                                        <button
+                                                            onClick={() => openPayment(s)}
+                                                            className="rounded-lg border border-indigo-200 bg-indigo-50 hover:bg-indigo-100 px-3 py-1 text-xs font-bold text-indigo-700 transition-colors"
+                                                        >
+                                                            Pay
+                                                        </button>
+                                                    )}
+                                                </div>
                                             </li>
                                         ))}
                                     </ul>
                                 )}
+                                {viewMode === "list" && settlementData.residue.length > 0 && (
+                                    <p className="text-xs text-slate-500 font-semibold mt-3">
+                                        Not covered by the plan after rounding:{" "}
+                                        {settlementData.residue.map((r) => `${r.name} ${r.amount > 0 ? "is owed" : "owes"} ${money(Math.abs(r.amount))}`).join(", ")}
+                                    </p>
+                                )}
                             </>
                         )}
 
+                        {/* Recurring Expenses */}
+                        {recurring.length > 0 && (
+                            <div className="pt-8">
+                                <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mb-3">Recurring Expenses</p>
+                                <ul className="space-y-3">
+                                    {recurring.map((rec) => (
+                                        <li
+                                            key={rec.id}
+                                            className={`flex items-center justify-between rounded-xl border border-slate-200 bg-white shadow-sm px-5 py-4 transition-colors ${rec.paused ? "opacity-60" : ""}`}
+                                        >
+                                            <div className="min-w-0">
+                                                <p className="font-bold text-slate-900 truncate text-base">{rec.description}</p>
+                                                <p className="text-xs text-slate-500 mt-1 font-semibold tracking-wide">
+                                                    {rec.schedule.toUpperCase()}
+                                                    {" · PAID BY "}
+                                                    <span className="text-slate-700 font-bold">{rec.paidBy.name.toUpperCase()}</span>
+                                                    {" · "}
+                                                    {rec.paused
+                                                        ? "PAUSED"
+                                                        : `NEXT ${new Date(rec.nextRunAt).toLocaleDateString("en-IN", { day: "2-digit", month: "short" }).toUpperCase()}`}
+                                                </p>
+                                            </div>
+                                            <div className="ml-4 text-right shrink-0">
+                                                <span className="text-slate-900 font-extrabold tracking-tight text-lg tabular-nums">
+                                                    {formatCurrency(Number(rec.amount), rec.currency)}
+                                                </span>
+                                                {canEdit(rec) && (
+                                                    <div className="mt-1 text-xs font-bold">
+                                                        <button
+                                                            onClick={() => toggleRecurring(rec)}
+                                                            disabled={refreshing || togglingRecurringId === rec.id}
+                                                            className="text-slate-500 hover:text-indigo-600 transition-colors disabled:opacity-40"
+                                                        >
+                                                            {rec.paused ? "Resume" : "Pause"}
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
+                        {/* Pending Invites */}
+                        {invites.length > 0 && (
+                            <div className="pt-8">
+                                <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mb-3">Pending Invites</p>
+                                <ul className="space-y-3">
+                                    {invites.map((invite) => (
+                                        <li
+                                            key={invite.id}
+                                            className="flex items-center justify-between rounded-xl border border-slate-200 bg-white shadow-sm px-5 py-4"
+                                        >
+                                            <div className="min-w-0">
+                                                <p className="font-bold text-slate-900 truncate text-base">
+                                                    {invite.email ?? "Shareable link"}
+                                                    {invite.placeholderId && (
+                                                        <span className="text-slate-400 font-semibold"> · to claim {membershipOf(invite.placeholderId)?.name ?? "a placeholder"}</span>
+                                                    )}
+                                                </p>
+                                                <p className="text-xs text-slate-500 mt-1 font-semibold tracking-wide">
+                                                    {invite.role}
+                                                    {" · "}
+                                                    {invite.maxUses === null ? `USED ${invite.useCount} TIMES` : `${invite.maxUses - invite.useCount} OF ${invite.maxUses} USES LEFT`}
+                                                    {" · EXPIRES "}
+                                                    {new Date(invite.expiresAt).toLocaleDateString("en-IN", { day: "2-digit", month: "short" }).toUpperCase()}
+                                                </p>
+                                            </div>
+                                            <div className="ml-4 flex items-center gap-3 shrink-0 text-xs font-bold">
+                                                <button
+                                                    onClick={() => navigator.clipboard?.writeText(invite.link).then(() => setToast("Invite link copied"))}
+                                                    className="text-slate-500 hover:text-indigo-600 transition-colors"
+                                                >
+                                                    Copy link
+                                                </button>
+                                                <button
+                                                    onClick={() => handleRevokeInvite(invite)}
+                                                    disabled={refreshing || revokingInviteId === invite.id}
+                                                    className="text-slate-500 hover:text-red-600 transition-colors disabled:opacity-40"
+                                                >
+                                                    {revokingInviteId === invite.id ? "Revoking…" : "Revoke"}
+                                                </button>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
                         {/* Expense History */}
                         <div id="expense-history" className="pt-8">
-                            <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mb-3">Expense History</p>
-                            {expenses.length === 0 ? (
+                            <div className="flex items-center justify-between mb-3">
+                                <p className="text-xs text-slate-500 font-bold uppercase tracking-widest">Expense History</p>
+                                {expenses.length > 0 && (
+                                    <select
+                                        value={historyCategory}
+                                        onChange={(e) => setHistoryCategory(e.target.value)}
+                                        className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-xs font-semibold text-slate-600 shadow-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none"
+                                    >
+                                        <option value="">All categories</option>
+                                        {categories.map((c) => (
+                                            <option key={c.name} value={c.name}>{c.emoji} {c.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+                            {historyError && <p className="text-red-500 text-xs font-semibold mb-3">{historyError}</p>}
+                            {filteredExpenses.length === 0 ? (
                                 <div className="rounded-xl border border-slate-200 bg-slate-50 px-5 py-6 text-center text-slate-500 text-sm font-medium shadow-sm">
-                                    No expenses recorded yet.
+                                    {expenses.length === 0 ? "No expenses recorded yet." : `No ${historyCategory} expenses yet.`}
                                 </div>
                             ) : (
                                 <ul className="space-y-3">
-                                    {expenses.map((exp) => (
+                                    {filteredExpenses.map((exp) => (
                                         <li
                                             key={exp.id}
-                                            className="flex items-center justify-between rounded-xl border border-slate-200 bg-white shadow-sm px-5 py-4 hover:border-indigo-200 hover:bg-slate-50 transition-colors"
+                                            className="rounded-xl border border-slate-200 bg-white shadow-sm px-5 py-4 hover:border-indigo-200 hover:bg-slate-50 transition-colors"
                                         >
-                                            <div className="min-w-0">
-                                                <p className="font-bold text-slate-900 truncate text-base">{exp.description}</p>
-                                                <p className="text-xs text-slate-500 mt-1 font-semibold tracking-wide">
-                                                    PAID BY <span className="text-slate-700 font-bold">{exp.paidBy.name.toUpperCase()}</span>
-                                                    {" · "}
-                                                    {new Date(exp.createdAt).toLocaleDateString("en-IN", {
-                                                        day: "2-digit", month: "short", year: "numeric",
-                                                    }).toUpperCase()}
-                                                </p>
+                                            <div className="flex items-center justify-between">
+                                                <div className="min-w-0">
+                                                    <p className="font-bold text-slate-900 truncate text-base">{exp.description}</p>
+                                                    <p className="text-xs text-slate-500 mt-1 font-semibold tracking-wide">
+                                                        {categoryEmoji(exp.category)} {exp.category.toUpperCase()}
+                                                        {" · "}
+                                                        PAID BY <span className="text-slate-700 font-bold">{payerNames(exp).toUpperCase()}</span>
+                                                        {" · "}
+                                                        {new Date(exp.createdAt).toLocaleDateString("en-IN", {
+                                                            day: "2-digit", month: "short", year: "numeric",
+                                                        }).toUpperCase()}
+                                                    </p>
+                                                </div>
+                                                <div className="ml-4 text-right shrink-0">
+                                                    <span className="text-slate-900 font-extrabold tracking-tight text-lg tabular-nums">
+                                                        {formatCurrency(Number(exp.amount), exp.currency)}
+                                                    </span>
+                                                    {exp.currency !== currency && (
+                                                        <p className="text-xs text-slate-500 font-semibold tabular-nums">≈ {money(exp.baseAmount)}</p>
+                                                    )}
+                                                    <div className="mt-1 flex items-center justify-end gap-3 text-xs font-bold">
+                                                        {exp.splitType === "ITEMIZED" && (
+                                                            <button
+                                                                onClick={() => toggleBreakdown(exp)}
+                                                                className="text-slate-500 hover:text-indigo-600 transition-colors"
+                                                            >
+                                                                {expandedExpenseId === exp.id ? "Hide breakdown" : "Breakdown"}
+                                                            </button>
+                                                        )}
+                                                        {canEdit(exp) && (
+                                                            <>
+                                                                <button
+                                                                    onClick={() => openEditModal(exp)}
+                                                                    disabled={refreshing || deletingExpenseId === exp.id}
+                                                                    className="text-slate-500 hover:text-indigo-600 transition-colors disabled:opacity-40"
+                                                                >
+                                                                    Edit
+                                                                </button>
+                                                                <button
+                                                                    onClick={() => handleDeleteExpense(exp)}
+                                                                    disabled={refreshing || deletingExpenseId === exp.id}
+                                                                    className="text-slate-500 hover:text-red-600 transition-colors disabled:opacity-40"
+                                                                >
+                                                                    {deletingExpenseId === exp.id ? "Deleting…" : "Delete"}
+                                                                </button>
+                                                            </>
+                                                        )}
+                                                    </div>
+                                                </div>
                                             </div>
-                                            <span className="ml-4 text-slate-900 font-extrabold tracking-tight text-lg tabular-nums shrink-0">
-                                                ₹{Number(exp.amount).toFixed(2)}
-                                            </span>
+                                            {expandedExpenseId === exp.id && (
+                                                <div className="mt-4 border-t border-slate-100 pt-4 text-xs">
+                                                    {!breakdowns[exp.id] ? (
+                                                        <p className="text-slate-400 font-semibold">Loading breakdown…</p>
+                                                    ) : (
+                                                        <>
+                                                            <ul className="space-y-1">
+                                                                {breakdowns[exp.id].items.map((item) => (
+                                                                    <li key={item.id} className="flex justify-between gap-4">
+                                                                        <span className="text-slate-700 font-semibold">
+                                                                            {item.description}
+                                                                            <span className="text-slate-400 font-medium">
+                                                                                {" · "}{item.participants.map((p) => p.user.name).join(", ")}
+                                                                            </span>
+                                                                        </span>
+                                                                        <span className="text-slate-700 font-bold tabular-nums">{formatCurrency(item.amount, exp.currency)}</span>
+                                                                    </li>
+                                                                ))}
+                                                            </ul>
+                                                            <p className="mt-2 text-slate-500 font-semibold">
+                                                                Tax {formatCurrency(breakdowns[exp.id].taxAmount, exp.currency)}
+                                                                {" · "}Service {formatCurrency(breakdowns[exp.id].serviceCharge, exp.currency)}
+                                                                {" · "}Tip {formatCurrency(breakdowns[exp.id].tipAmount, exp.currency)}
+                                                            </p>
+                                                            <table className="mt-3 w-full text-left tabular-nums">
+                                                                <thead className="text-slate-400 uppercase tracking-wider">
+                                                                    <tr>
+                                                                        <th className="font-bold py-1">Member</th>
+                                                                        <th className="font-bold py-1 text-right">Items</th>
+                                                                        <th className="font-bold py-1 text-right">Tax</th>
+                                                                        <th className="font-bold py-1 text-right">Service</th>
+                                                                        <th className="font-bold py-1 text-right">Tip</th>
+                                                                        <th className="font-bold py-1 text-right">Owes</th>
+                                                                    </tr>
+                                                                </thead>
+                                                                <tbody className="text-slate-700 font-semibold">
+                                                                    {breakdowns[exp.id].breakdown.map((row) => (
+                                                                        <tr key={row.userId}>
+                                                                            <td className="py-1">{row.name}</td>
+                                                                            <td className="py-1 text-right">{formatCurrency(row.subtotal, exp.currency)}</td>
+                                                                            <td className="py-1 text-right">{formatCurrency(row.tax, exp.currency)}</td>
+                                                                            <td className="py-1 text-right">{formatCurrency(row.serviceCharge, exp.currency)}</td>
+                                                                            <td className="py-1 text-right">{formatCurrency(row.tip, exp.currency)}</td>
+                                                                            <td className="py-1 text-right font-bold text-slate-900">{formatCurrency(row.total, exp.currency)}</td>
+                                                                        </tr>
+                                                                    ))}
+                                                                </tbody>
+                                                            </table>
+                                                        </>
+                                                    )}
+                                                </div>
+                                            )}
                                         </li>
                                     ))}
                                 </ul>
@@ -650,9 +1475,9 @@ export default function GroupBalancesPage({
                     className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm px-4"
                     onClick={(e) => e.target === e.currentTarget && !submitting && setModalOpen(false)}
                 >
-                    <div className="w-full max-w-md rounded-2xl border border-slate-200 bg-white p-6 shadow-2xl">
+                    <div className="w-full max-w-md max-h-[90vh] overflow-y-auto rounded-2xl border border-slate-200 bg-white p-6 shadow-2xl">
                         <div className="flex items-center justify-between mb-6">
-                            <h2 className="text-xl font-bold text-slate-900">Add Expense</h2>
+                            <h2 className="text-xl font-bold text-slate-900">{editingExpense ? "Edit Expense" : "Add Expense"}</h2>
                             <button
                                 onClick={() => !submitting && setModalOpen(false)}
                                 className="text-slate-400 hover:text-slate-600 transition-colors text-2xl leading-none disabled:opacity-40"
@@ -685,7 +1510,7 @@ export default function GroupBalancesPage({
 
                             <div>
                                 <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">
-                                    Amount (₹) <span className="text-red-500">*</span>
+                                    Amount ({form.currency}) <span className="text-red-500">*</span>
                                 </label>
                                 <input
                                     type="number"
@@ -704,6 +1529,38 @@ export default function GroupBalancesPage({
                                 {fieldErrors.amount && <p className="mt-1 text-xs font-semibold text-red-500">{fieldErrors.amount}</p>}
                             </div>
 
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">Currency</label>
+                                <select
+                                    value={form.currency}
+                                    onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value }))}
+                                    disabled={submitting}
+                                    className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50"
+                                >
+                                    {CURRENCIES.map((c) => (
+                                        <option key={c} value={c}>{c}{c === currency ? " (group currency)" : ""}</option>
+                                    ))}
+                                </select>
+                                {form.currency !== currency && (
+                                    <p className="mt-1 text-xs font-semibold text-slate-500">Converted to {currency} using the stored exchange rate.</p>
+                                )}
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">Category</label>
+                                <select
+                                    value={form.category}
+                                    onChange={(e) => handleCategoryChange(e.target.value)}
+                                    disabled={submitting}
+                                    className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50"
+                                >
+                                    {categories.map((c) => (
+                                        <option key={c.name} value={c.name}>{c.emoji} {c.name}</option>
+                                    ))}
+                                    <option value={NEW_CATEGORY}>+ New category…</option>
+                                </select>
+                            </div>
+
                             <div>
                                 <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">
                                     Paid by <span className="text-red-500">*</span>
@@ -726,6 +1583,27 @@ export default function GroupBalancesPage({
                                 {fieldErrors.paidById && <p className="mt-1 text-xs font-semibold text-red-500">{fieldErrors.paidById}</p>}
                             </div>
 
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">Split</label>
+                                {splitEditable ? (
+                                    <SplitEditor
+                                        members={balanceData?.balances ?? []}
+                                        amount={parseFloat(form.amount)}
+                                        currency={form.currency}
+                                        value={splitDraft}
+                                        onChange={(draft) => {
+                                            setSplitDraft(draft);
+                                            setSplitTouched(true);
+                                        }}
+                                        disabled={submitting}
+                                    />
+                                ) : (
+                                    <p className="text-xs font-semibold text-slate-500">
+                                        This is a {editingExpense?.splitType.toLowerCase()} split; it is kept as it is.
+                                    </p>
+                                )}
+                            </div>
+
                             {fieldErrors.server && <p className="text-red-500 text-xs font-semibold">{fieldErrors.server}</p>}
 
                             <div className="flex gap-3 pt-4">
@@ -739,11 +1617,13 @@ export default function GroupBalancesPage({
                                 </button>
                                 <button
                                     type="submit"
-                                    disabled={submitting}
+                                    disabled={submitting || !splitReady}
                                     className="flex-1 flex items-center justify-center gap-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed transition-colors py-3 text-sm font-bold text-white"
                                 >
                                     {submitting && <Spinner className="w-4 h-4" />}
-                                    {submitting ? "Adding…" : "Add Expense"}
+                                    {editingExpense
+                                        ? (submitting ? "Saving…" : "Save Changes")
+                                        : (submitting ? "Adding…" : "Add Expense")}
                                 </button>
                             </div>
                         </form>
@@ -759,7 +1639,9 @@ export default function GroupBalancesPage({
                 >
                     <div className="w-full max-w-sm rounded-2xl border border-slate-200 bg-white p-6 shadow-2xl">
                         <div className="flex items-center justify-between mb-6">
-                            <h2 className="text-xl font-bold text-slate-900">Add Member</h2>
+                            <h2 className="text-xl font-bold text-slate-900">
+                                {memberForm.claim ? `Invite ${memberForm.claim.name}` : "Add Member"}
+                            </h2>
                             <button
                                 onClick={() => !memberSubmitting && setMemberModalOpen(false)}
                                 disabled={memberSubmitting}
@@ -769,55 +1651,164 @@ export default function GroupBalancesPage({
                             </button>
                         </div>
 
-                        <form onSubmit={handleMemberSubmit} className="space-y-4">
-                            <div>
-                                <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">Name</label>
+                        {createdInvite ? (
+                            <div className="space-y-4">
+                                <p className="text-sm text-slate-600 font-medium">
+                                    {createdInvite.emailSent
+                                        ? `Invite sent to ${createdInvite.email}. You can also share the link yourself:`
+                                        : "Share this link with the people you want to invite:"}
+                                </p>
                                 <input
                                     type="text"
-                                    value={memberForm.name}
-                                    onChange={(e) => setMemberForm((f) => ({ ...f, name: e.target.value }))}
-                                    placeholder="Jane Doe"
-                                    disabled={memberSubmitting}
-                                    autoFocus
-                                    className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm placeholder-slate-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50"
+                                    readOnly
+                                    value={createdInvite.link}
+                                    onFocus={(e) => e.target.select()}
+                                    className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm placeholder-slate-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50 font-mono text-xs"
                                 />
+                                <div className="flex gap-3 pt-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => navigator.clipboard?.writeText(createdInvite.link).then(() => setToast("Invite link copied"))}
+                                        className="flex-1 rounded-lg border border-slate-200 py-2.5 text-sm font-medium text-slate-700 hover:bg-slate-50 transition-colors"
+                                    >
+                                        Copy link
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => setMemberModalOpen(false)}
+                                        className="flex-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 transition-colors py-2.5 text-sm font-medium text-white"
+                                    >
+                                        Done
+                                    </button>
+                                </div>
                             </div>
+                        ) : (
+                            <form onSubmit={handleMemberSubmit} className="space-y-4">
+                                {memberForm.claim ? (
+                                    <p className="text-sm text-slate-600 font-medium">
+                                        Whoever accepts this invite takes over {memberForm.claim.name}&apos;s place, including the expenses and payments recorded for them.
+                                    </p>
+                                ) : (
+                                    <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-lg border border-slate-200">
+                                        {(["invite", "placeholder"] as const).map((mode) => (
+                                            <button
+                                                key={mode}
+                                                type="button"
+                                                onClick={() => setMemberForm((f) => ({ ...f, mode }))}
+                                                className={`flex-1 px-3 py-1.5 text-xs font-bold rounded-md transition-all duration-200 ${memberForm.mode === mode ? "bg-white text-slate-900 shadow-sm ring-1 ring-slate-200" : "text-slate-500 hover:text-slate-700"}`}
+                                            >
+                                                {mode === "invite" ? "Invite" : "Add without account"}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
 
-                            <div>
-                                <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">
-                                    Email <span className="normal-case text-slate-400">(optional)</span>
-                                </label>
-                                <input
-                                    type="email"
-                                    value={memberForm.email}
-                                    onChange={(e) => setMemberForm((f) => ({ ...f, email: e.target.value }))}
-                                    placeholder="jane@example.com"
-                                    disabled={memberSubmitting}
-                                    className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm placeholder-slate-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50"
-                                />
-                            </div>
+                                {memberForm.mode === "placeholder" && (
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">Name</label>
+                                        <input
+                                            type="text"
+                                            value={memberForm.name}
+                                            onChange={(e) => setMemberForm((f) => ({ ...f, name: e.target.value }))}
+                                            placeholder="Jane Doe"
+                                            disabled={memberSubmitting}
+                                            autoFocus
+                                            className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm placeholder-slate-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50"
+                                        />
+                                        <p className="text-xs text-slate-400 font-medium mt-1.5">
+                                            They can be split with right away and claim their place later through an invite.
+                                        </p>
+                                    </div>
+                                )}
+
+                                {memberForm.mode === "invite" && (
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">
+                                            Email <span className="normal-case text-slate-400">(optional, or share a link)</span>
+                                        </label>
+                                        <input
+                                            type="email"
+                                            value={memberForm.email}
+                                            onChange={(e) => setMemberForm((f) => ({ ...f, email: e.target.value }))}
+                                            placeholder="jane@example.com"
+                                            disabled={memberSubmitting}
+                                            autoFocus
+                                            className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm placeholder-slate-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50"
+                                        />
+                                    </div>
+                                )}
 
-                            {memberFormError && <p className="text-red-500 font-semibold text-xs">{memberFormError}</p>}
+                                {memberForm.mode === "invite" && (
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {/* A claim keeps the placeholder's role */}
+                                        {!memberForm.claim && (
+                                            <div>
+                                                <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">Role</label>
+                                                <select
+                                                    value={memberForm.role}
+                                                    onChange={(e) => setMemberForm((f) => ({ ...f, role: e.target.value as GroupRole }))}
+                                                    disabled={memberSubmitting}
+                                                    className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm placeholder-slate-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50"
+                                                >
+                                                    {GROUP_ROLES.filter((role) => role === "MEMBER" || (groupInfo && canChangeRole(groupInfo.role, "MEMBER", role))).map((role) => (
+                                                        <option key={role} value={role}>{role.charAt(0) + role.slice(1).toLowerCase()}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        )}
+                                        <div>
+                                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">Expires in</label>
+                                            <select
+                                                value={memberForm.expiresInDays}
+                                                onChange={(e) => setMemberForm((f) => ({ ...f, expiresInDays: e.target.value }))}
+                                                disabled={memberSubmitting}
+                                                className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm placeholder-slate-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50"
+                                            >
+                                                <option value="1">1 day</option>
+                                                <option value="7">7 days</option>
+                                                <option value="30">30 days</option>
+                                            </select>
+                                        </div>
+                                    </div>
+                                )}
 
-                            <div className="flex gap-3 pt-2">
-                                <button
-                                    type="button"
-                                    onClick={() => setMemberModalOpen(false)}
-                                    disabled={memberSubmitting}
-                                    className="flex-1 rounded-lg border border-gray-700 py-2.5 text-sm text-gray-400 hover:border-gray-500 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
-                                >
-                                    Cancel
-                                </button>
-                                <button
-                                    type="submit"
-                                    disabled={memberSubmitting}
-                                    className="flex-1 flex items-center justify-center gap-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-60 disabled:cursor-not-allowed transition-colors py-2.5 text-sm font-medium text-white"
-                                >
-                                    {memberSubmitting && <Spinner className="w-4 h-4" />}
-                                    {memberSubmitting ? "Adding…" : "Add Member"}
-                                </button>
-                            </div>
-                        </form>
+                                {memberForm.mode === "invite" && !memberForm.claim && !memberForm.email.trim() && (
+                                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-600">
+                                        <input
+                                            type="checkbox"
+                                            checked={memberForm.multiUse}
+                                            onChange={(e) => setMemberForm((f) => ({ ...f, multiUse: e.target.checked }))}
+                                            disabled={memberSubmitting}
+                                            className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                                        />
+                                        Anyone with the link can join until it expires
+                                    </label>
+                                )}
+
+                                {memberFormError && <p className="text-red-500 font-semibold text-xs">{memberFormError}</p>}
+
+                                <div className="flex gap-3 pt-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => setMemberModalOpen(false)}
+                                        disabled={memberSubmitting}
+                                        className="flex-1 rounded-lg border border-gray-700 py-2.5 text-sm text-gray-400 hover:border-gray-500 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        type="submit"
+                                        disabled={memberSubmitting}
+                                        className="flex-1 flex items-center justify-center gap-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-60 disabled:cursor-not-allowed transition-colors py-2.5 text-sm font-medium text-white"
+                                    >
+                                        {memberSubmitting && <Spinner className="w-4 h-4" />}
+                                        {memberSubmitting
+                                            ? "Saving…"
+                                            : memberForm.mode === "placeholder" ? "Add Member" : memberForm.email.trim() ? "Send Invite" : "Create Link"}
+                                    </button>
+                                </div>
+                            </form>
+                        )}
                     </div>
                 </div>
             )}
@@ -887,7 +1878,7 @@ export default function GroupBalancesPage({
 
                             <div>
                                 <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">
-                                    Amount (₹) <span className="text-red-500">*</span>
+                                    Amount ({currency}) <span className="text-red-500">*</span>
                                 </label>
                                 <input
                                     type="number"
@@ -930,6 +1921,174 @@ export default function GroupBalancesPage({
                     </div>
                 </div>
             )}
+
+            {/* Pay Modal */}
+            {payment && (
+                <div
+                    className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm px-4"
+                    onClick={(e) => e.target === e.currentTarget && !paymentSubmitting && setPayment(null)}
+                >
+                    <div className="w-full max-w-sm rounded-2xl border border-slate-200 bg-white p-6 shadow-2xl">
+                        <div className="flex items-center justify-between mb-6">
+                            <h2 className="text-xl font-bold text-slate-900">Pay {payment.to}</h2>
+                            <button
+                                onClick={() => !paymentSubmitting && setPayment(null)}
+                                disabled={paymentSubmitting}
+                                className="text-slate-400 hover:text-slate-600 transition-colors text-2xl leading-none disabled:opacity-40"
+                            >
+                                ×
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleMarkPaid} className="space-y-4">
+                            <p className="text-sm text-slate-600 font-medium">
+                                {payment.from} pays {payment.to} <span className="font-bold text-slate-900">{money(payment.amount)}</span>.
+                            </p>
+
+                            {payment.link && payment.qrSvg ? (
+                                <div className="space-y-3 text-center">
+                                    {/* Generated on our server from the link alone, so it's safe to inline */}
+                                    <div className="mx-auto w-48 h-48" dangerouslySetInnerHTML={{ __html: payment.qrSvg }} />
+                                    <p className="text-xs font-semibold text-slate-500">Scan with any UPI app, or pay {payment.upiId}</p>
+                                    <a
+                                        href={payment.link}
+                                        className="inline-block rounded-xl border border-indigo-200 bg-indigo-50 px-4 py-2 text-sm font-bold text-indigo-700 hover:bg-indigo-100 transition-colors"
+                                    >
+                                        Open UPI app
+                                    </a>
+                                </div>
+                            ) : payment.unavailable ? (
+                                <p className="text-sm text-slate-600 font-medium">{payment.unavailable}. Pay them another way and record it here.</p>
+                            ) : !paymentError && (
+                                <div className="flex justify-center py-6"><Spinner className="w-6 h-6 text-indigo-500" /></div>
+                            )}
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">
+                                    UPI reference (optional)
+                                </label>
+                                <input
+                                    value={upiReference}
+                                    onChange={(e) => setUpiReference(e.target.value)}
+                                    placeholder="12-digit UTR from the payment app"
+                                    disabled={paymentSubmitting}
+                                    className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 transition-all disabled:opacity-50 disabled:bg-slate-50"
+                                />
+                            </div>
+
+                            {paymentError && <p className="text-red-500 text-xs font-semibold">{paymentError}</p>}
+
+                            <div className="flex gap-3 pt-4">
+                                <button
+                                    type="button"
+                                    onClick={() => setPayment(null)}
+                                    disabled={paymentSubmitting}
+                                    className="flex-1 rounded-xl border border-slate-200 bg-white py-3 text-sm font-bold text-slate-600 shadow-sm hover:bg-slate-50 hover:text-slate-900 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={paymentSubmitting}
+                                    className="flex-1 flex items-center justify-center gap-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed transition-colors py-3 text-sm font-bold text-white"
+                                >
+                                    {paymentSubmitting && <Spinner className="w-4 h-4" />}
+                                    {paymentSubmitting ? "Recording…" : "Mark as paid"}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Remove Member Modal */}
+            {removal && (
+                <div
+                    className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm px-4"
+                    onClick={(e) => e.target === e.currentTarget && !removalSubmitting && setRemoval(null)}
+                >
+                    <div className="w-full max-w-sm rounded-2xl border border-slate-200 bg-white p-6 shadow-2xl">
+                        <div className="flex items-center justify-between mb-6">
+                            <h2 className="text-xl font-bold text-slate-900">{removal.leaving ? "Leave Group" : `Remove ${removal.name}`}</h2>
+                            <button
+                                onClick={() => !removalSubmitting && setRemoval(null)}
+                                disabled={removalSubmitting}
+                                className="text-slate-400 hover:text-slate-600 transition-colors text-2xl leading-none disabled:opacity-40"
+                            >
+                                ×
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleRemovalSubmit} className="space-y-4">
+                            <p className="text-sm text-slate-600 font-medium">
+                                {removal.name} {balanceLabel(removal.balance)}. Past expenses and payments stay in the history.
+                            </p>
+
+                            {removal.balance !== 0 && !allowed("manageMembers") && (
+                                <p className="text-sm text-slate-600 font-medium">Settle up first, or ask an admin to remove you.</p>
+                            )}
+
+                            {removal.balance !== 0 && allowed("manageMembers") && (
+                                <>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">
+                                            What happens to the balance?
+                                        </label>
+                                        <select
+                                            value={removalForm.transferToUserId}
+                                            onChange={(e) => setRemovalForm((f) => ({ ...f, transferToUserId: e.target.value }))}
+                                            disabled={removalSubmitting}
+                                            className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50"
+                                        >
+                                            <option value="">Write it off across the group</option>
+                                            {balanceData?.balances
+                                                .filter((m) => membershipOf(m.userId)?.id !== removal.memberId)
+                                                .map((m) => (
+                                                    <option key={m.userId} value={m.userId}>Pass it to {m.name}</option>
+                                                ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">
+                                            Reason <span className="text-red-500">*</span>
+                                        </label>
+                                        <input
+                                            type="text"
+                                            value={removalForm.reason}
+                                            onChange={(e) => setRemovalForm((f) => ({ ...f, reason: e.target.value }))}
+                                            placeholder="Moved out, paid the rest in cash…"
+                                            maxLength={200}
+                                            disabled={removalSubmitting}
+                                            className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm placeholder-slate-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none transition-all disabled:opacity-50 disabled:bg-slate-50"
+                                        />
+                                    </div>
+                                </>
+                            )}
+
+                            {removalError && <p className="text-red-500 text-xs font-semibold">{removalError}</p>}
+
+                            <div className="flex gap-3 pt-4">
+                                <button
+                                    type="button"
+                                    onClick={() => setRemoval(null)}
+                                    disabled={removalSubmitting}
+                                    className="flex-1 rounded-xl border border-slate-200 bg-white py-3 text-sm font-bold text-slate-600 shadow-sm hover:bg-slate-50 hover:text-slate-900 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={removalSubmitting || (removal.balance !== 0 && !allowed("manageMembers"))}
+                                    className="flex-1 flex items-center justify-center gap-2 rounded-xl bg-red-600 hover:bg-red-500 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed transition-colors py-3 text-sm font-bold text-white"
+                                >
+                                    {removalSubmitting && <Spinner className="w-4 h-4" />}
+                                    {removalSubmitting ? "Removing…" : removal.leaving ? "Leave" : "Remove"}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
         </>
     );
 }
@@ -0,0 +1,316 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency";
+import { MAX_DESCRIPTION_LENGTH, MAX_GROUP_NAME_LENGTH, SETTLEMENT_ROUNDING_STEPS } from "@/lib/groupSettings";
+import { GroupAction } from "@/lib/roles";
+
+interface GroupSettings {
+    id: string;
+    name: string;
+    description: string | null;
+    emoji: string | null;
+    archivedAt: string | null;
+    simplifyDebts: boolean;
+    settlementRounding: number;
+    minTransfer: number;
+    maxTransfersPerPerson: number | null;
+    permissions: Record<GroupAction, boolean>;
+}
+
+interface Balance {
+    userId: string;
+    name: string;
+    balance: number;
+}
+
+export default function GroupSettingsPage({
+    params,
+}: {
+    params: Promise<{ groupId: string }>;
+}) {
+    const router = useRouter();
+    const [groupId, setGroupId] = useState<string | null>(null);
+    const [group, setGroup] = useState<GroupSettings | null>(null);
+    const [openBalances, setOpenBalances] = useState<Balance[]>([]);
+    const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+    const [form, setForm] = useState({ name: "", emoji: "", description: "" });
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [confirmDelete, setConfirmDelete] = useState(false);
+    const [deleting, setDeleting] = useState(false);
+
+    useEffect(() => {
+        params.then((p) => setGroupId(p.groupId));
+    }, [params]);
+
+    const load = useCallback((id: string) => {
+        Promise.all([
+            fetch(`/api/groups/${id}`).then((r) => {
+                if (!r.ok) throw new Error(`HTTP ${r.status}`);
+                return r.json() as Promise<GroupSettings>;
+            }),
+            fetch(`/api/groups/${id}/balances`).then((r) => {
+                if (!r.ok) throw new Error(`HTTP ${r.status}`);
+                return r.json() as Promise<{ currency: string; balances: Balance[] }>;
+            }),
+        ])
+            .then(([g, b]) => {
+                setGroup(g);
+                setForm({ name: g.name, emoji: g.emoji ?? "", description: g.description ?? "" });
+                setCurrency(b.currency);
+                setOpenBalances(b.balances.filter((m) => Number(m.balance) !== 0));
+            })
+            .catch((err: Error) => setLoadError(err.message));
+    }, []);
+
+    useEffect(() => {
+        if (groupId) load(groupId);
+    }, [groupId, load]);
+
+    const update = async (change: Record<string, unknown>) => {
+        if (!groupId) return;
+        setSaving(true);
+        setSaved(false);
+        setFormError(null);
+        try {
+            const res = await fetch(`/api/groups/${groupId}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(change),
+            });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            setSaved(true);
+            load(groupId);
+        } catch (err: unknown) {
+            setFormError(err instanceof Error ? err.message : "Failed to save settings");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form.name.trim()) { setFormError("Group name is required."); return; }
+        update({ name: form.name, emoji: form.emoji, description: form.description });
+    };
+
+    const handleDelete = async () => {
+        if (!groupId || !group) return;
+        if (openBalances.length === 0 && !window.confirm(`Delete "${group.name}" and all of its expenses? This can't be undone.`)) return;
+        setDeleting(true);
+        setFormError(null);
+        try {
+            const res = await fetch(`/api/groups/${groupId}`, {
+                method: "DELETE",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ confirm: confirmDelete }),
+            });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            router.replace("/dashboard");
+        } catch (err: unknown) {
+            setFormError(err instanceof Error ? err.message : "Failed to delete group");
+            setDeleting(false);
+        }
+    };
+
+    const inputClass = "w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm placeholder-slate-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 focus:outline-none transition-all disabled:bg-slate-50 disabled:opacity-50";
+    const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5";
+    const canEdit = group?.permissions.renameGroup ?? false;
+
+    return (
+        <main className="min-h-screen bg-transparent text-slate-900 px-6">
+            <div className="max-w-xl mx-auto py-10 animate-fade-in-up">
+                <Link href={`/dashboard/groups/${groupId ?? ""}`} className="text-sm font-semibold text-slate-500 hover:text-indigo-600 transition-colors">
+                    ← Back to group
+                </Link>
+                <h1 className="text-3xl font-extrabold tracking-tight text-slate-900 mt-4 mb-8">Group Settings</h1>
+
+                {loadError && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 px-5 py-4 text-red-600 shadow-sm text-sm font-semibold">
+                        Failed to load group: {loadError}
+                    </div>
+                )}
+
+                {group && (
+                    <div className="space-y-8">
+                        <form onSubmit={handleSave} className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm space-y-4">
+                            <div className="grid grid-cols-[5rem_1fr] gap-3">
+                                <div>
+                                    <label className={labelClass}>Emoji</label>
+                                    <input
+                                        type="text"
+                                        value={form.emoji}
+                                        onChange={(e) => setForm((f) => ({ ...f, emoji: e.target.value }))}
+                                        placeholder="🏖️"
+                                        disabled={!canEdit || saving}
+                                        className={`${inputClass} text-center`}
+                                    />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Name</label>
+                                    <input
+                                        type="text"
+                                        value={form.name}
+                                        onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                                        maxLength={MAX_GROUP_NAME_LENGTH}
+                                        disabled={!canEdit || saving}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            </div>
+                            <div>
+                                <label className={labelClass}>Description</label>
+                                <textarea
+                                    value={form.description}
+                                    onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+                                    maxLength={MAX_DESCRIPTION_LENGTH}
+                                    rows={3}
+                                    placeholder="What is this group for?"
+                                    disabled={!canEdit || saving}
+                                    className={inputClass}
+                                />
+                            </div>
+
+                            {formError && <p className="text-red-500 text-xs font-semibold">{formError}</p>}
+                            {saved && !formError && <p className="text-emerald-600 text-xs font-semibold">Saved.</p>}
+
+                            {canEdit && (
+                                <div className="flex flex-wrap gap-3 pt-2">
+                                    <button
+                                        type="submit"
+                                        disabled={saving}
+                                        className="rounded-xl bg-indigo-600 hover:bg-indigo-500 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed transition-colors px-5 py-2.5 text-sm font-bold text-white"
+                                    >
+                                        {saving ? "Saving…" : "Save"}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => update({ archived: !group.archivedAt })}
+                                        disabled={saving}
+                                        className="rounded-xl border border-slate-200 bg-white py-2.5 px-5 text-sm font-bold text-slate-600 shadow-sm hover:bg-slate-50 hover:text-slate-900 transition-colors disabled:opacity-40"
+                                    >
+                                        {group.archivedAt ? "Unarchive" : "Archive"}
+                                    </button>
+                                </div>
+                            )}
+                            <label className="flex items-start gap-2 text-sm text-slate-700 font-semibold">
+                                <input
+                                    type="checkbox"
+                                    checked={group.simplifyDebts}
+                                    onChange={(e) => update({ simplifyDebts: e.target.checked })}
+                                    disabled={!canEdit || saving}
+                                    className="mt-1"
+                                />
+                                <span>
+                                    Simplify debts
+                                    <span className="block text-xs text-slate-500 font-medium">
+                                        Settle up in the fewest transfers, even between people who never shared an expense. Turn off to only settle between people who owe each other.
+                                    </span>
+                                </span>
+                            </label>
+                            {group.simplifyDebts && (
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+                                    <label className="space-y-1 font-semibold text-slate-700">
+                                        <span className="block text-xs">Round transfers to</span>
+                                        <select
+                                            value={group.settlementRounding}
+                                            onChange={(e) => update({ settlementRounding: Number(e.target.value) })}
+                                            disabled={!canEdit || saving}
+                                            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 shadow-sm"
+                                        >
+                                            {SETTLEMENT_ROUNDING_STEPS.map((step) => (
+                                                <option key={step} value={step}>{step === 0 ? "Exact amounts" : formatCurrency(step, currency)}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                    <label className="space-y-1 font-semibold text-slate-700">
+                                        <span className="block text-xs">Skip transfers under</span>
+                                        <input
+                                            key={`min-${group.minTransfer}`}
+                                            type="number"
+                                            min={0}
+                                            step="0.01"
+                                            defaultValue={group.minTransfer || ""}
+                                            placeholder="No minimum"
+                                            onBlur={(e) => Number(e.target.value || 0) !== group.minTransfer && update({ minTransfer: Number(e.target.value || 0) })}
+                                            disabled={!canEdit || saving}
+                                            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 shadow-sm"
+                                        />
+                                    </label>
+                                    <label className="space-y-1 font-semibold text-slate-700">
+                                        <span className="block text-xs">Most transfers per person</span>
+                                        <input
+                                            key={`cap-${group.maxTransfersPerPerson}`}
+                                            type="number"
+                                            min={1}
+                                            step="1"
+                                            defaultValue={group.maxTransfersPerPerson ?? ""}
+                                            placeholder="No limit"
+                                            onBlur={(e) => {
+                                                const cap = e.target.value ? Number(e.target.value) : null;
+                                                if (cap !== group.maxTransfersPerPerson) update({ maxTransfersPerPerson: cap });
+                                            }}
+                                            disabled={!canEdit || saving}
+                                            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 shadow-sm"
+                                        />
+                                    </label>
+                                    <p className="sm:col-span-3 text-xs text-slate-500 font-medium">
+                                        Payments under the minimum are left out of the plan. Anything they or rounding leave over is shown next to the plan.
+                                    </p>
+                                </div>
+                            )}
+                            <p className="text-xs text-slate-500 font-medium">
+                                {group.archivedAt
+                                    ? `Archived on ${new Date(group.archivedAt).toLocaleDateString()}. The group is read-only and hidden from your dashboard.`
+                                    : "Archiving a finished trip makes it read-only and hides it from your dashboard."}
+                            </p>
+                        </form>
+
+                        {group.permissions.deleteGroup && (
+                            <div className="rounded-2xl border border-red-200 bg-white p-6 shadow-sm space-y-4">
+                                <h2 className="text-lg font-bold text-red-600">Delete group</h2>
+                                <p className="text-sm text-slate-600 font-medium">
+                                    Deletes every expense, payment, invite and activity entry in this group. This can&apos;t be undone.
+                                </p>
+                                {openBalances.length > 0 && (
+                                    <>
+                                        <ul className="text-sm text-slate-700 font-semibold space-y-1">
+                                            {openBalances.map((b) => (
+                                                <li key={b.userId}>
+                                                    {b.name} {b.balance > 0 ? "gets back" : "owes"} {formatCurrency(Math.abs(b.balance), currency)}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                        <label className="flex items-center gap-2 text-sm text-slate-700 font-semibold">
+                                            <input type="checkbox" checked={confirmDelete} onChange={(e) => setConfirmDelete(e.target.checked)} />
+                                            Delete anyway; these balances will be lost
+                                        </label>
+                                    </>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={handleDelete}
+                                    disabled={deleting || (openBalances.length > 0 && !confirmDelete)}
+                                    className="rounded-xl bg-red-600 hover:bg-red-500 shadow-sm disabled:opacity-60 disabled:cursor-not-allowed transition-colors px-5 py-2.5 text-sm font-bold text-white"
+                                >
+                                    {deleting ? "Deleting…" : "Delete group"}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </main>
+    );
+}
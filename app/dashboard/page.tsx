@@ -2,10 +2,15 @@
 
 import Link from "next/link";
 import { useCallback, useEffect, useState } from "react";
+import { CURRENCIES, DEFAULT_CURRENCY } from "@/lib/currency";
+import { MAX_GROUP_NAME_LENGTH } from "@/lib/groupSettings";
 
 interface Group {
     id: string;
     name: string;
+    emoji: string | null;
+    description: string | null;
+    archivedAt: string | null;
     createdAt: string;
 }
 
@@ -38,10 +43,12 @@ export default function DashboardPage() {
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [showArchived, setShowArchived] = useState(false);
 
     // Modal state
     const [modalOpen, setModalOpen] = useState(false);
     const [groupName, setGroupName] = useState("");
+    const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
     const [submitting, setSubmitting] = useState(false);
     const [formError, setFormError] = useState<string | null>(null);
 
@@ -52,7 +59,7 @@ export default function DashboardPage() {
         if (isRefresh) setRefreshing(true);
         else setLoading(true);
         setError(null);
-        fetch("/api/groups")
+        fetch(`/api/groups${showArchived ? "?archived=true" : ""}`)
             .then((res) => {
                 if (!res.ok) throw new Error(`HTTP ${res.status}`);
                 return res.json();
@@ -63,7 +70,7 @@ export default function DashboardPage() {
                 setLoading(false);
                 setRefreshing(false);
             });
-    }, []);
+    }, [showArchived]);
 
     useEffect(() => {
         fetchGroups();
@@ -71,6 +78,7 @@ export default function DashboardPage() {
 
     const handleCreateGroup = () => {
         setGroupName("");
+        setBaseCurrency(DEFAULT_CURRENCY);
         setFormError(null);
         setModalOpen(true);
     };
@@ -85,7 +93,7 @@ export default function DashboardPage() {
             const res = await fetch("/api/groups", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ name }),
+                body: JSON.stringify({ name, baseCurrency }),
             });
             if (!res.ok) {
                 const body = await res.json().catch(() => ({}));
@@ -113,6 +121,10 @@ export default function DashboardPage() {
                         <p className="text-slate-500 mt-2 text-base font-medium">Manage your active groups and balances.</p>
                     </div>
                     <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-2 text-sm font-semibold text-slate-600">
+                            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+                            Show archived
+                        </label>
                         <Link
                             href="/me"
                             className="px-4 py-2 border border-slate-200 bg-white text-slate-700 shadow-sm text-sm font-semibold rounded-xl hover:bg-slate-50 hover:text-slate-900 hover:border-slate-300 transition"
@@ -184,7 +196,16 @@ export default function DashboardPage() {
                                     className="group flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-8 rounded-3xl border border-slate-200 bg-white hover:border-indigo-200 transition-all duration-300 cursor-pointer shadow-sm hover:shadow-md hover:shadow-indigo-500/5 hover:scale-[1.01]"
                                 >
                                     <div>
-                                        <h3 className="font-bold text-xl text-slate-900 tracking-tight group-hover:text-indigo-600 transition-colors">{g.name}</h3>
+                                        <h3 className="font-bold text-xl text-slate-900 tracking-tight group-hover:text-indigo-600 transition-colors">
+                                            {g.emoji && <span className="mr-2">{g.emoji}</span>}
+                                            {g.name}
+                                            {g.archivedAt && (
+                                                <span className="ml-2 align-middle text-[10px] font-bold uppercase tracking-widest text-amber-700 bg-amber-50 border border-amber-100 rounded px-1.5 py-0.5">
+                                                    Archived
+                                                </span>
+                                            )}
+                                        </h3>
+                                        {g.description && <p className="text-slate-500 text-sm mt-1 font-medium">{g.description}</p>}
                                         <p className="text-slate-500 text-xs mt-1.5 uppercase tracking-widest font-semibold flex items-center gap-1.5">
                                             <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -235,6 +256,7 @@ export default function DashboardPage() {
                                     type="text"
                                     value={groupName}
                                     onChange={(e) => setGroupName(e.target.value)}
+                                    maxLength={MAX_GROUP_NAME_LENGTH}
                                     placeholder="Goa Trip, Flatmates, Bali 2025…"
                                     disabled={submitting}
                                     autoFocus
@@ -242,6 +264,22 @@ export default function DashboardPage() {
                                 />
                             </div>
 
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1.5">
+                                    Base Currency
+                                </label>
+                                <select
+                                    value={baseCurrency}
+                                    onChange={(e) => setBaseCurrency(e.target.value)}
+                                    disabled={submitting}
+                                    className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-sm font-semibold text-slate-900 shadow-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 focus:outline-none transition-all disabled:bg-slate-50 disabled:opacity-50"
+                                >
+                                    {CURRENCIES.map((c) => (
+                                        <option key={c} value={c}>{c}</option>
+                                    ))}
+                                </select>
+                            </div>
+
                             {formError && <p className="text-red-500 text-xs font-semibold">{formError}</p>}
 
                             <div className="flex gap-3 pt-4">
@@ -0,0 +1,105 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+
+interface InvitePreview {
+    groupId: string;
+    groupName: string;
+    invitedBy: string;
+    role: string;
+    placeholderName: string | null;
+    expiresAt: string;
+    alreadyMember: boolean;
+    problem: string | null;
+}
+
+export default function InvitePage({
+    params,
+}: {
+    params: Promise<{ token: string }>;
+}) {
+    const router = useRouter();
+    const [token, setToken] = useState<string | null>(null);
+    const [invite, setInvite] = useState<InvitePreview | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [joining, setJoining] = useState(false);
+
+    useEffect(() => {
+        params.then((p) => setToken(p.token));
+    }, [params]);
+
+    useEffect(() => {
+        if (!token) return;
+        fetch(`/api/invites/${token}`)
+            .then(async (res) => {
+                if (res.status === 401) {
+                    router.replace(`/sign-in?next=${encodeURIComponent(`/invite/${token}`)}`);
+                    return;
+                }
+                const body = await res.json().catch(() => ({}));
+                if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`);
+                setInvite(body);
+            })
+            .catch((err) => setError(err.message));
+    }, [token, router]);
+
+    const handleJoin = async () => {
+        if (!token || !invite) return;
+        setJoining(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/invites/${token}/accept`, { method: "POST" });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            router.replace(`/dashboard/groups/${invite.groupId}`);
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "Failed to join group");
+            setJoining(false);
+        }
+    };
+
+    return (
+        <main className="min-h-screen bg-transparent text-slate-900 px-6">
+            <div className="max-w-sm mx-auto py-16 animate-fade-in-up">
+                {!invite && !error && <p className="text-slate-400 text-sm font-semibold">Loading invite…</p>}
+
+                {invite && (
+                    <>
+                        <p className="text-xs text-indigo-600 font-bold uppercase tracking-widest mb-2">You&apos;re invited</p>
+                        <h1 className="text-3xl font-extrabold tracking-tight text-slate-900 mb-1">{invite.groupName}</h1>
+                        <p className="text-slate-500 text-sm font-semibold mb-8">
+                            {invite.placeholderName
+                                ? `${invite.invitedBy} invited you to join as ${invite.placeholderName}. The expenses and payments recorded for ${invite.placeholderName} will become yours.`
+                                : `${invite.invitedBy} invited you to join as ${invite.role.toLowerCase()}.`}
+                        </p>
+
+                        {invite.alreadyMember ? (
+                            <Link
+                                href={`/dashboard/groups/${invite.groupId}`}
+                                className="block w-full text-center bg-indigo-600 hover:bg-indigo-500 text-white px-5 py-2.5 rounded-xl font-medium transition-all shadow-sm text-sm"
+                            >
+                                You&apos;re already a member. Open the group
+                            </Link>
+                        ) : invite.problem ? (
+                            <p className="text-sm text-red-600 font-medium">{invite.problem}</p>
+                        ) : (
+                            <button
+                                onClick={handleJoin}
+                                disabled={joining}
+                                className="w-full bg-indigo-600 hover:bg-indigo-500 text-white px-5 py-2.5 rounded-xl font-medium transition-all shadow-sm hover:shadow-md active:scale-95 text-sm disabled:opacity-50"
+                            >
+                                {joining ? "Joining…" : "Join group"}
+                            </button>
+                        )}
+                    </>
+                )}
+
+                {error && <p className="text-sm text-red-600 font-medium mt-4">{error}</p>}
+            </div>
+        </main>
+    );
+}
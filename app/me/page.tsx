@@ -1,12 +1,14 @@
 "use client";
 
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useEffect, useState, useMemo } from "react";
 
 interface User {
     id: string;
     name: string;
     email: string;
+    upiId?: string | null;
 }
 
 interface Group {
@@ -27,6 +29,21 @@ interface BalanceData {
     balances: Balance[];
 }
 
+interface NetLeg {
+    groupId: string;
+    groupName: string;
+    currency: string;
+    amount: number;
+}
+
+interface NetTransfer {
+    currency: string;
+    fromUserId: string;
+    toUserId: string;
+    amount: number;
+    legs: NetLeg[];
+}
+
 interface GroupFinancials {
     group: Group;
     balance: number;
@@ -42,8 +59,9 @@ function Spinner({ className = "" }: { className?: string }) {
 }
 
 export default function MePage() {
-    const [users, setUsers] = useState<User[]>([]);
-    const [selectedUserId, setSelectedUserId] = useState<string>("");
+    const router = useRouter();
+    const [user, setUser] = useState<User | null>(null);
+    const [signingOut, setSigningOut] = useState(false);
 
     // Data state
     const [groups, setGroups] = useState<Group[]>([]);
@@ -52,28 +70,45 @@ export default function MePage() {
     const [calculating, setCalculating] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    // Initial load: fetch users and general groups (to know which ones to fetch balances for)
+    // UPI ID others' payment links pay into
+    const [upiId, setUpiId] = useState("");
+    const [savingUpi, setSavingUpi] = useState(false);
+    const [upiMessage, setUpiMessage] = useState<string | null>(null);
+
+    // Cross-group netting with one other person
+    const [people, setPeople] = useState<User[]>([]);
+    const [nettingWith, setNettingWith] = useState("");
+    const [netTransfers, setNetTransfers] = useState<NetTransfer[] | null>(null);
+    const [nettingError, setNettingError] = useState<string | null>(null);
+    const [recordingNet, setRecordingNet] = useState(false);
+
+    // Initial load: the signed-in user and general groups (to know which ones to fetch balances for)
     useEffect(() => {
         setLoading(true);
-        Promise.all([
-            fetch("/api/users").then(r => r.json() as Promise<User[]>),
-            fetch("/api/groups").then(r => r.json() as Promise<Group[]>)
-        ])
-            .then(([fetchedUsers, fetchedGroups]) => {
-                setUsers(fetchedUsers);
-                setGroups(fetchedGroups);
-                if (fetchedUsers.length > 0) {
-                    setSelectedUserId(fetchedUsers[0].id);
+        fetch("/api/auth/me")
+            .then(async (res) => {
+                if (res.status === 401) {
+                    router.replace("/sign-in");
+                    return;
                 }
+                if (!res.ok) throw new Error(`HTTP ${res.status}`);
+                const [me, fetchedGroups, fetchedPeople] = await Promise.all([
+                    res.json() as Promise<User>,
+                    fetch("/api/groups").then(r => r.json() as Promise<Group[]>),
+                    fetch("/api/users").then(r => r.json() as Promise<User[]>),
+                ]);
+                setUser(me);
+                setUpiId(me.upiId ?? "");
+                setGroups(fetchedGroups);
+                setPeople(fetchedPeople.filter(p => p.id !== me.id));
             })
             .catch(err => setError(err.message))
             .finally(() => setLoading(false));
-    }, []);
+    }, [router]);
 
-    // When a user is selected (or groups naturally load), fetch all balances to compute totals.
-    // In a real app we'd fetch only groups the user belongs to via a backend query.
+    // Once the user and their groups load, fetch all balances to compute totals.
     useEffect(() => {
-        if (!selectedUserId || groups.length === 0) return;
+        if (!user || groups.length === 0) return;
 
         setCalculating(true);
         const fetchAllBalances = async () => {
@@ -97,11 +132,11 @@ export default function MePage() {
         };
 
         fetchAllBalances();
-    }, [selectedUserId, groups]);
+    }, [user, groups]);
 
     // Compute the derived statistics based on balancesData map
     const financials = useMemo(() => {
-        if (!selectedUserId || calculating) return null;
+        if (!user || calculating) return null;
 
         let totalOwedToMe = 0; // creditor
         let totalIOwe = 0;     // debtor
@@ -109,7 +144,7 @@ export default function MePage() {
         const debtorGroups: GroupFinancials[] = [];
 
         Object.entries(balancesData).forEach(([groupId, data]) => {
-            const myBalance = data.balances.find(b => b.userId === selectedUserId)?.balance || 0;
+            const myBalance = data.balances.find(b => b.userId === user.id)?.balance || 0;
             if (myBalance === 0) return; // Ignore if balanced or not in group
 
             const groupInfo = groups.find(g => g.id === groupId);
@@ -135,7 +170,72 @@ export default function MePage() {
             creditorGroups,
             debtorGroups
         };
-    }, [selectedUserId, balancesData, groups, calculating]);
+    }, [user, balancesData, groups, calculating]);
+
+    const saveUpiId = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSavingUpi(true);
+        setUpiMessage(null);
+        try {
+            const res = await fetch("/api/auth/me", {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ upiId }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setUpiMessage(data.error || "Failed to save your UPI ID");
+                return;
+            }
+            setUser(data);
+            setUpiMessage(data.upiId ? "Saved. Payment links in your groups now pay you here." : "UPI ID removed.");
+        } finally {
+            setSavingUpi(false);
+        }
+    };
+
+    const loadNetting = async (otherUserId: string) => {
+        setNettingWith(otherUserId);
+        setNetTransfers(null);
+        setNettingError(null);
+        if (!otherUserId) return;
+
+        const res = await fetch(`/api/users/${otherUserId}/netting`);
+        const data = await res.json();
+        if (!res.ok) {
+            setNettingError(data.error || "Failed to net balances");
+            return;
+        }
+        setNetTransfers(data.transfers);
+    };
+
+    const recordNetPayment = async (currency: string) => {
+        setRecordingNet(true);
+        setNettingError(null);
+        try {
+            const res = await fetch(`/api/users/${nettingWith}/netting`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ currency }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setNettingError(data.error || "Failed to record the net payment");
+                return;
+            }
+            await loadNetting(nettingWith);
+        } finally {
+            setRecordingNet(false);
+        }
+    };
+
+    const personName = (id: string) => (id === user?.id ? "You" : people.find(p => p.id === id)?.name ?? "Someone");
+
+    const handleSignOut = async () => {
+        setSigningOut(true);
+        await fetch("/api/auth/sign-out", { method: "POST" }).catch(() => undefined);
+        router.replace("/sign-in");
+    };
 
     if (loading) {
         return (
@@ -166,19 +266,43 @@ export default function MePage() {
                         <p className="text-slate-500 text-sm font-semibold">Review your cross-group standing across the platform.</p>
                     </div>
 
-                    <div className="flex items-center gap-3">
-                        <label className="text-sm font-bold text-slate-500 whitespace-nowrap uppercase tracking-widest">View as:</label>
-                        <select
-                            value={selectedUserId}
-                            onChange={(e) => setSelectedUserId(e.target.value)}
-                            disabled={calculating}
-                            className="bg-white border border-slate-300 shadow-sm text-slate-900 font-semibold text-sm rounded-xl focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full p-2.5 transition-colors"
+                    {user && (
+                        <div className="flex items-center gap-3">
+                            <div className="text-right">
+                                <p className="text-sm font-bold text-slate-900">{user.name}</p>
+                                <p className="text-xs font-semibold text-slate-500">{user.email}</p>
+                            </div>
+                            <button
+                                onClick={handleSignOut}
+                                disabled={signingOut}
+                                className="px-4 py-2 border border-slate-200 bg-white text-slate-700 shadow-sm text-sm font-semibold rounded-xl hover:bg-slate-50 hover:text-slate-900 hover:border-slate-300 transition disabled:opacity-50"
+                            >
+                                {signingOut ? "Signing out…" : "Sign out"}
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                <div className="space-y-2">
+                    <form onSubmit={saveUpiId} className="flex flex-col sm:flex-row sm:items-end gap-3">
+                        <label className="flex-1 space-y-1">
+                            <span className="block text-xs font-bold text-slate-500 uppercase tracking-widest">Your UPI ID</span>
+                            <input
+                                value={upiId}
+                                onChange={(e) => setUpiId(e.target.value)}
+                                placeholder="name@bank"
+                                className="w-full px-3 py-2 border border-slate-200 rounded-xl text-sm font-semibold bg-white shadow-sm"
+                            />
+                        </label>
+                        <button
+                            type="submit"
+                            disabled={savingUpi}
+                            className="px-4 py-2 border border-slate-200 bg-white text-slate-700 shadow-sm text-sm font-semibold rounded-xl hover:bg-slate-50 transition disabled:opacity-50"
                         >
-                            {users.map(u => (
-                                <option key={u.id} value={u.id}>{u.name}</option>
-                            ))}
-                        </select>
-                    </div>
+                            {savingUpi ? "Saving…" : "Save"}
+                        </button>
+                    </form>
+                    {upiMessage && <p className="text-xs font-semibold text-slate-500">{upiMessage}</p>}
                 </div>
 
                 {calculating && (
@@ -315,6 +439,65 @@ export default function MePage() {
                             </div>
 
                         </div>
+
+                        {/* Cross-group netting */}
+                        <div className="space-y-4">
+                            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                                <div>
+                                    <h2 className="text-base font-extrabold text-slate-900">Settle up with one person</h2>
+                                    <p className="text-xs font-semibold text-slate-500 mt-1">Nets what you owe each other across every group you share into a single payment.</p>
+                                </div>
+                                <select
+                                    value={nettingWith}
+                                    onChange={(e) => loadNetting(e.target.value)}
+                                    className="px-3 py-2 border border-slate-200 rounded-xl text-sm font-semibold bg-white shadow-sm"
+                                >
+                                    <option value="">Choose a person…</option>
+                                    {people.map((p) => (
+                                        <option key={p.id} value={p.id}>{p.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {nettingError && <p className="text-sm font-semibold text-red-600">{nettingError}</p>}
+
+                            {netTransfers && netTransfers.length === 0 && (
+                                <div className="px-5 py-8 border border-dashed border-slate-200 rounded-2xl bg-slate-50 text-center shadow-sm">
+                                    <p className="text-sm font-semibold text-slate-500">You and {personName(nettingWith)} are settled up in every shared group.</p>
+                                </div>
+                            )}
+
+                            {netTransfers?.map((t) => (
+                                <div key={t.currency} className="bg-white border border-slate-200 shadow-sm rounded-2xl p-5 space-y-4">
+                                    <div className="flex items-center justify-between gap-4">
+                                        <p className="text-sm font-bold text-slate-900">
+                                            {t.amount === 0
+                                                ? "Your debts cancel out exactly"
+                                                : `${personName(t.fromUserId)} ${t.fromUserId === user?.id ? "pay" : "pays"} ${personName(t.toUserId)} ${t.currency} ${t.amount.toFixed(2)}`}
+                                        </p>
+                                        <button
+                                            onClick={() => recordNetPayment(t.currency)}
+                                            disabled={recordingNet}
+                                            className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-xl shadow-sm hover:bg-indigo-500 transition disabled:opacity-50"
+                                        >
+                                            {recordingNet ? "Recording…" : t.amount === 0 ? "Clear balances" : "Record net payment"}
+                                        </button>
+                                    </div>
+                                    <ul className="divide-y divide-slate-100 text-sm">
+                                        {t.legs.map((leg) => (
+                                            <li key={leg.groupId} className="flex items-center justify-between py-2">
+                                                <Link href={`/dashboard/groups/${leg.groupId}`} className="font-semibold text-slate-700 hover:text-indigo-600">
+                                                    {leg.groupName}
+                                                </Link>
+                                                <span className={`font-bold tabular-nums ${leg.amount > 0 ? "text-red-600" : "text-emerald-600"}`}>
+                                                    {leg.amount > 0 ? "You owe" : "Owes you"} {Math.abs(leg.amount).toFixed(2)}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
                     </div>
                 )}
             </div>
@@ -0,0 +1,109 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+type Mode = "sign-in" | "sign-up";
+
+export default function SignInPage() {
+    const router = useRouter();
+    const [mode, setMode] = useState<Mode>("sign-in");
+    const [name, setName] = useState("");
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (mode === "sign-up" && !name.trim()) { setFormError("Name is required."); return; }
+        if (!email.trim()) { setFormError("Email is required."); return; }
+        setSubmitting(true);
+        setFormError(null);
+        setNotice(null);
+        try {
+            const res = await fetch(`/api/auth/${mode}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(mode === "sign-up" ? { name, email, password } : { email, password }),
+            });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? `HTTP ${res.status}`);
+            }
+            if (res.status === 202) {
+                setNotice("Check your inbox to confirm your email, then sign in.");
+                setMode("sign-in");
+                setSubmitting(false);
+                return;
+            }
+            // Invite links send people here first and expect to be returned
+            const next = new URLSearchParams(window.location.search).get("next");
+            router.replace(next?.startsWith("/") && !next.startsWith("//") ? next : "/dashboard");
+        } catch (err: unknown) {
+            setFormError(err instanceof Error ? err.message : "Failed to sign in");
+            setSubmitting(false);
+        }
+    };
+
+    const inputClass = "w-full bg-white border border-slate-300 rounded-xl px-4 py-2.5 text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition shadow-sm";
+
+    return (
+        <main className="min-h-screen bg-transparent text-slate-900 px-6">
+            <div className="max-w-sm mx-auto py-16 animate-fade-in-up">
+                <h1 className="text-3xl font-extrabold tracking-tight text-slate-900 mb-1">
+                    {mode === "sign-in" ? "Sign in" : "Create an account"}
+                </h1>
+                <p className="text-slate-500 text-sm font-semibold mb-8">
+                    {mode === "sign-in" ? "Welcome back to YourSplit." : "Start splitting expenses with your groups."}
+                </p>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {mode === "sign-up" && (
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 mb-1.5">Name</label>
+                            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} autoComplete="name" />
+                        </div>
+                    )}
+                    <div>
+                        <label className="block text-sm font-semibold text-slate-700 mb-1.5">Email</label>
+                        <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} autoComplete="email" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-semibold text-slate-700 mb-1.5">Password</label>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            className={inputClass}
+                            autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+                        />
+                    </div>
+
+                    {formError && <p className="text-sm text-red-600 font-medium">{formError}</p>}
+                    {notice && <p className="text-sm text-emerald-600 font-medium">{notice}</p>}
+
+                    <button
+                        type="submit"
+                        disabled={submitting}
+                        className="w-full bg-indigo-600 hover:bg-indigo-500 text-white px-5 py-2.5 rounded-xl font-medium transition-all shadow-sm hover:shadow-md active:scale-95 text-sm disabled:opacity-50"
+                    >
+                        {submitting ? "Please wait…" : mode === "sign-in" ? "Sign in" : "Sign up"}
+                    </button>
+                </form>
+
+                <p className="text-sm text-slate-500 mt-6 text-center">
+                    {mode === "sign-in" ? "New here?" : "Already have an account?"}{" "}
+                    <button
+                        type="button"
+                        onClick={() => { setMode(mode === "sign-in" ? "sign-up" : "sign-in"); setFormError(null); setNotice(null); }}
+                        className="font-semibold text-indigo-600 hover:text-indigo-500"
+                    >
+                        {mode === "sign-in" ? "Create an account" : "Sign in"}
+                    </button>
+                </p>
+            </div>
+        </main>
+    );
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useRef, useMemo, useCallback, memo } from "react";
 import dynamic from "next/dynamic";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency";
 
 // Dynamically import react-force-graph-2d to prevent SSR issues with canvas/window
 const ForceGraph2D = dynamic(() => import("react-force-graph-2d"), {
@@ -33,6 +34,9 @@ interface Edge {
 function DebtGraphInner({ groupId }: { groupId: string }) {
     const [graphData, setGraphData] = useState<{ nodes: Record<string, unknown>[]; links: Record<string, unknown>[], optimizedLinks: Record<string, unknown>[], rawLinks: Record<string, unknown>[] } | null>(null);
     const [viewMode, setViewMode] = useState<"optimized" | "raw">("optimized");
+    const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+    // Groups that don't simplify debts get pairwise transfers in place of the optimized plan
+    const [simplifyDebts, setSimplifyDebts] = useState(true);
     const [loading, setLoading] = useState(true);
     const containerRef = useRef<HTMLDivElement>(null);
     const [dimensions, setDimensions] = useState({ width: 0, height: 400 });
@@ -43,6 +47,7 @@ function DebtGraphInner({ groupId }: { groupId: string }) {
                 const res = await fetch(`/api/groups/${groupId}/graph`);
                 if (!res.ok) throw new Error("Failed to fetch graph data");
                 const data = await res.json();
+                const graphCurrency: string = data.currency ?? DEFAULT_CURRENCY;
 
                 // Format for react-force-graph
                 const nodes = data.nodes.map((n: Node) => ({
@@ -58,7 +63,7 @@ function DebtGraphInner({ groupId }: { groupId: string }) {
                     source: e.from,
                     target: e.to,
                     amount: e.amount,
-                    name: `₹${e.amount.toFixed(2)}`,
+                    name: formatCurrency(e.amount, graphCurrency),
                     type: "optimized"
                 }));
 
@@ -66,10 +71,12 @@ function DebtGraphInner({ groupId }: { groupId: string }) {
                     source: e.from,
                     target: e.to,
                     amount: e.amount,
-                    name: `₹${e.amount.toFixed(2)}`,
+                    name: formatCurrency(e.amount, graphCurrency),
                     type: "raw"
                 }));
 
+                setCurrency(graphCurrency);
+                setSimplifyDebts(data.simplifyDebts !== false);
                 // Merging links allows D3 to track both simultaneously for smooth physical transitions
                 setGraphData({ nodes, optimizedLinks, rawLinks, links: [...optimizedLinks, ...rawLinks] });
             } catch (err) {
@@ -168,9 +175,9 @@ function DebtGraphInner({ groupId }: { groupId: string }) {
                     <button
                         onClick={() => setViewMode("optimized")}
                         className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all duration-200 ${viewMode === "optimized" ? "bg-indigo-50 text-indigo-700 shadow-sm ring-1 ring-indigo-200" : "text-slate-500 hover:text-indigo-600"}`}
-                        title="Show minimum settlement transactions"
+                        title={simplifyDebts ? "Show minimum settlement transactions" : "Show transfers between people who owe each other"}
                     >
-                        Optimized View
+                        {simplifyDebts ? "Optimized View" : "Pairwise View"}
                     </button>
                 </div>
             </div>
@@ -185,14 +192,14 @@ function DebtGraphInner({ groupId }: { groupId: string }) {
                         const spent = node.totalSpent as number;
                         const statusClass = balance > 0 ? "text-emerald-600" : balance < 0 ? "text-red-600" : "text-slate-500";
                         const statusText = balance > 0 ? "Gets back" : balance < 0 ? "Owes" : "Settled up";
-                        const formattedBalance = balance === 0 ? "" : `₹${Math.abs(balance).toFixed(2)}`;
+                        const formattedBalance = balance === 0 ? "" : formatCurrency(Math.abs(balance), currency);
 
                         return `
                         <div class="bg-white border border-slate-200 rounded-lg p-3 shadow-xl backdrop-blur-sm shadow-slate-200/50 text-xs min-w-[140px]">
                             <p class="font-extrabold text-slate-900 text-base mb-1.5">${node.name as string}</p>
                             <div class="flex items-center justify-between mb-1">
                                 <span class="text-slate-500 font-bold uppercase tracking-widest text-[10px]">Spent</span>
-                                <span class="font-bold text-slate-700">₹${spent.toFixed(2)}</span>
+                                <span class="font-bold text-slate-700">${formatCurrency(spent, currency)}</span>
                             </div>
                             <div class="flex items-center justify-between pt-1 border-t border-slate-100">
                                 <span class="text-slate-500 font-bold uppercase tracking-widest text-[10px]">${statusText}</span>
@@ -288,7 +295,7 @@ function DebtGraphInner({ groupId }: { groupId: string }) {
                         </div>
                         <div className="hidden sm:block w-px h-10 bg-slate-200"></div>
                         <div className="flex flex-col">
-                            <span className="text-slate-500 font-bold text-xs uppercase tracking-wider mb-1">Optimized Transactions</span>
+                            <span className="text-slate-500 font-bold text-xs uppercase tracking-wider mb-1">{simplifyDebts ? "Optimized" : "Pairwise"} Transactions</span>
                             <span className="text-2xl font-extrabold text-emerald-600 tabular-nums">{graphData.optimizedLinks.length}</span>
                         </div>
                         <div className="hidden sm:block w-px h-10 bg-slate-200"></div>
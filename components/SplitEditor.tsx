@@ -0,0 +1,154 @@
+"use client";
+
+import { formatCurrency } from "@/lib/currency";
+import { fromMinor, toMinor } from "@/lib/money";
+import { PERCENT_TOLERANCE } from "@/lib/splits";
+
+export type EditableSplitType = "EQUAL" | "EXACT" | "PERCENT";
+
+export interface SplitDraft {
+    splitType: EditableSplitType;
+    /** Members taking part in the expense. */
+    userIds: string[];
+    /** Exact amounts or percentages as typed, keyed by userId. */
+    values: Record<string, string>;
+}
+
+interface Member {
+    userId: string;
+    name: string;
+}
+
+export function equalSplitDraft(members: Member[]): SplitDraft {
+    return { splitType: "EQUAL", userIds: members.map((m) => m.userId), values: {} };
+}
+
+/**
+ * What is still left to hand out: paise for EXACT, percentage points for PERCENT.
+ * Zero means the split reconciles; EQUAL splits always do once someone takes part.
+ */
+export function splitRemaining(draft: SplitDraft, amount: number): number {
+    const entered = draft.userIds.reduce((sum, userId) => sum + (Number(draft.values[userId]) || 0), 0);
+    if (draft.splitType === "EXACT") return toMinor(amount || 0) - toMinor(entered);
+    if (draft.splitType === "PERCENT") {
+        // Within the server's tolerance counts as allocated, and nothing looser does
+        const remaining = 100 - entered;
+        return Math.abs(remaining) <= PERCENT_TOLERANCE ? 0 : remaining;
+    }
+    return 0;
+}
+
+export function isSplitReconciled(draft: SplitDraft, amount: number): boolean {
+    return draft.userIds.length > 0 && splitRemaining(draft, amount) === 0;
+}
+
+/** The `splits` array the expenses API expects for this draft. */
+export function splitPayload(draft: SplitDraft) {
+    return draft.userIds.map((userId) => {
+        if (draft.splitType === "EXACT") return { userId, amount: Number(draft.values[userId]) || 0 };
+        if (draft.splitType === "PERCENT") return { userId, percent: Number(draft.values[userId]) || 0 };
+        return { userId };
+    });
+}
+
+const SPLIT_LABELS: Record<EditableSplitType, string> = {
+    EQUAL: "Equally",
+    EXACT: "Exact amounts",
+    PERCENT: "Percentages",
+};
+
+export default function SplitEditor({
+    members,
+    amount,
+    currency,
+    value,
+    onChange,
+    disabled = false,
+}: {
+    members: Member[];
+    amount: number;
+    currency: string;
+    value: SplitDraft;
+    onChange: (draft: SplitDraft) => void;
+    disabled?: boolean;
+}) {
+    const remaining = splitRemaining(value, amount);
+    const included = new Set(value.userIds);
+
+    const toggleMember = (userId: string) => {
+        const userIds = included.has(userId)
+            ? value.userIds.filter((id) => id !== userId)
+            : members.map((m) => m.userId).filter((id) => id === userId || included.has(id));
+        onChange({ ...value, userIds });
+    };
+
+    const equalShare = value.userIds.length > 0 ? (amount || 0) / value.userIds.length : 0;
+
+    return (
+        <div>
+            <div className="grid grid-cols-3 gap-1 rounded-xl bg-slate-100 p-1 mb-3">
+                {(Object.keys(SPLIT_LABELS) as EditableSplitType[]).map((type) => (
+                    <button
+                        key={type}
+                        type="button"
+                        onClick={() => onChange({ ...value, splitType: type, values: {} })}
+                        disabled={disabled}
+                        className={`rounded-lg py-2 text-xs font-bold transition-colors disabled:opacity-50 ${value.splitType === type ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"}`}
+                    >
+                        {SPLIT_LABELS[type]}
+                    </button>
+                ))}
+            </div>
+
+            <ul className="space-y-2 max-h-56 overflow-y-auto">
+                {members.map((member) => (
+                    <li key={member.userId} className="flex items-center gap-3">
+                        <label className="flex flex-1 items-center gap-2 text-sm font-semibold text-slate-700 min-w-0">
+                            <input
+                                type="checkbox"
+                                checked={included.has(member.userId)}
+                                onChange={() => toggleMember(member.userId)}
+                                disabled={disabled}
+                                className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            <span className="truncate">{member.name}</span>
+                        </label>
+                        {value.splitType === "EQUAL" ? (
+                            <span className="text-xs font-semibold text-slate-500 tabular-nums">
+                                {included.has(member.userId) ? formatCurrency(equalShare, currency) : "—"}
+                            </span>
+                        ) : (
+                            <div className="relative w-28">
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={value.values[member.userId] ?? ""}
+                                    onChange={(e) => onChange({ ...value, values: { ...value.values, [member.userId]: e.target.value } })}
+                                    disabled={disabled || !included.has(member.userId)}
+                                    placeholder="0"
+                                    className="w-full rounded-lg border border-slate-300 bg-white py-1.5 pl-2 pr-7 text-right text-sm font-semibold text-slate-900 tabular-nums focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 focus:outline-none disabled:opacity-40 disabled:bg-slate-50"
+                                />
+                                <span className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-xs font-bold text-slate-400">
+                                    {value.splitType === "PERCENT" ? "%" : currency}
+                                </span>
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            {value.userIds.length === 0 ? (
+                <p className="mt-2 text-xs font-semibold text-red-500">Pick at least one member.</p>
+            ) : value.splitType !== "EQUAL" && (
+                <p className={`mt-2 text-xs font-semibold tabular-nums ${remaining === 0 ? "text-emerald-600" : "text-amber-600"}`}>
+                    {remaining === 0
+                        ? "Fully allocated"
+                        : value.splitType === "EXACT"
+                            ? `${formatCurrency(fromMinor(Math.abs(remaining)), currency)} ${remaining > 0 ? "remaining to allocate" : "over the total"}`
+                            : `${Number(Math.abs(remaining).toFixed(4))}% ${remaining > 0 ? "remaining to allocate" : "over 100%"}`}
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createAuthProvider, createLocalAuthProvider, CookieStore, LOCAL_SESSION_COOKIE } from "@/lib/auth";
+
+function memoryCookies(): CookieStore {
+    const jar = new Map<string, string>();
+    return {
+        getAll: () => [...jar].map(([name, value]) => ({ name, value })),
+        set: (name, value) => { jar.set(name, value); },
+        delete: (name) => { jar.delete(name); },
+    };
+}
+
+describe("createLocalAuthProvider", () => {
+    it("keeps the signed-in email in a session cookie until sign-out", async () => {
+        const cookies = memoryCookies();
+        const auth = createLocalAuthProvider(cookies);
+
+        expect(await auth.getIdentity()).toBeNull();
+
+        const result = await auth.signUp("Asha", " Asha@Example.com ", "");
+        expect(result).toEqual({ identity: { authId: "local:asha@example.com", email: "asha@example.com", emailConfirmed: true, name: "Asha" } });
+        expect(cookies.getAll()).toEqual([{ name: LOCAL_SESSION_COOKIE, value: "asha@example.com" }]);
+        expect((await auth.getIdentity())?.authId).toBe("local:asha@example.com");
+
+        await auth.signOut();
+        expect(await auth.getIdentity()).toBeNull();
+    });
+
+    it("rejects malformed emails without starting a session", async () => {
+        const cookies = memoryCookies();
+        const result = await createLocalAuthProvider(cookies).signIn("not-an-email", "");
+
+        expect(result).toEqual({ error: "Enter a valid email address" });
+        expect(cookies.getAll()).toEqual([]);
+    });
+});
+
+describe("createAuthProvider", () => {
+    it("falls back to the local provider only outside production", () => {
+        expect(() => createAuthProvider(memoryCookies(), { NODE_ENV: "development" })).not.toThrow();
+        expect(() => createAuthProvider(memoryCookies(), { NODE_ENV: "production" })).toThrow("Supabase auth is not configured");
+        expect(() => createAuthProvider(memoryCookies(), { NODE_ENV: "production", AUTH_PROVIDER: "local" })).not.toThrow();
+    });
+
+    it("requires Supabase settings when Supabase is forced", () => {
+        expect(() => createAuthProvider(memoryCookies(), { AUTH_PROVIDER: "supabase" })).toThrow("NEXT_PUBLIC_SUPABASE_URL");
+    });
+});
@@ -0,0 +1,140 @@
+import { createServerClient } from "@supabase/ssr";
+
+/** Who a session belongs to, as reported by the auth provider. */
+export interface AuthIdentity {
+    /** Stable id from the provider, stored on User.authId. */
+    authId: string;
+    email: string;
+    /** Whether the provider has confirmed the person owns the email. */
+    emailConfirmed: boolean;
+    name?: string;
+}
+
+export type AuthResult = { identity: AuthIdentity } | { error: string };
+
+export interface AuthProvider {
+    /** The identity behind the current request's session, or null when signed out. */
+    getIdentity(): Promise<AuthIdentity | null>;
+    signIn(email: string, password: string): Promise<AuthResult>;
+    signUp(name: string, email: string, password: string): Promise<AuthResult>;
+    signOut(): Promise<void>;
+}
+
+export interface CookieOptions {
+    path?: string;
+    maxAge?: number;
+    httpOnly?: boolean;
+    sameSite?: "lax" | "strict" | "none";
+    secure?: boolean;
+}
+
+/** The slice of a cookie jar the providers need; next/headers' cookies() fits it. */
+export interface CookieStore {
+    getAll(): { name: string; value: string }[];
+    set(name: string, value: string, options?: CookieOptions): void;
+    delete(name: string): void;
+}
+
+export const LOCAL_SESSION_COOKIE = "yoursplit-local-session";
+
+const isEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+/**
+ * Supabase Auth with email and password. Sessions live in Supabase's own
+ * cookies, which are refreshed through the cookie store as needed.
+ */
+export function createSupabaseAuthProvider(cookieStore: CookieStore, url: string, anonKey: string): AuthProvider {
+    const supabase = createServerClient(url, anonKey, {
+        cookies: {
+            getAll: () => cookieStore.getAll(),
+            setAll: (cookiesToSet) => {
+                cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options as CookieOptions));
+            },
+        },
+    });
+
+    const toIdentity = (user: { id: string; email?: string; email_confirmed_at?: string; user_metadata?: Record<string, unknown> }): AuthIdentity => ({
+        authId: user.id,
+        email: user.email ?? "",
+        emailConfirmed: Boolean(user.email_confirmed_at),
+        name: typeof user.user_metadata?.name === "string" ? user.user_metadata.name : undefined,
+    });
+
+    return {
+        async getIdentity() {
+            const { data } = await supabase.auth.getUser();
+            return data.user ? toIdentity(data.user) : null;
+        },
+        async signIn(email, password) {
+            const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+            if (error || !data.user) return { error: error?.message ?? "Sign-in failed" };
+            return { identity: toIdentity(data.user) };
+        },
+        async signUp(name, email, password) {
+            const { data, error } = await supabase.auth.signUp({ email, password, options: { data: { name } } });
+            if (error || !data.user) return { error: error?.message ?? "Sign-up failed" };
+            return { identity: toIdentity(data.user) };
+        },
+        async signOut() {
+            await supabase.auth.signOut();
+        },
+    };
+}
+
+/**
+ * A stand-in for local development and tests: no passwords, the session
+ * cookie simply names the signed-in email. Never use it in production.
+ */
+export function createLocalAuthProvider(cookieStore: CookieStore): AuthProvider {
+    const identityFor = (email: string, name?: string): AuthIdentity => ({
+        authId: `local:${email}`,
+        email,
+        emailConfirmed: true,
+        name,
+    });
+
+    const start = (email: string, name?: string): AuthResult => {
+        const normalized = email.trim().toLowerCase();
+        if (!isEmail(normalized)) return { error: "Enter a valid email address" };
+        cookieStore.set(LOCAL_SESSION_COOKIE, normalized, { path: "/", httpOnly: true, sameSite: "lax" });
+        return { identity: identityFor(normalized, name) };
+    };
+
+    return {
+        async getIdentity() {
+            const email = cookieStore.getAll().find((c) => c.name === LOCAL_SESSION_COOKIE)?.value;
+            return email && isEmail(email) ? identityFor(email) : null;
+        },
+        async signIn(email) {
+            return start(email);
+        },
+        async signUp(name, email) {
+            return start(email, name);
+        },
+        async signOut() {
+            cookieStore.delete(LOCAL_SESSION_COOKIE);
+        },
+    };
+}
+
+/**
+ * Picks the provider from the environment: Supabase when it is configured,
+ * otherwise the local stand-in (outside production only). AUTH_PROVIDER
+ * forces one or the other.
+ */
+export function createAuthProvider(cookieStore: CookieStore, env: Record<string, string | undefined> = process.env): AuthProvider {
+    const url = env.NEXT_PUBLIC_SUPABASE_URL;
+    const anonKey = env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    const choice = env.AUTH_PROVIDER ?? (url && anonKey ? "supabase" : "local");
+
+    if (choice === "supabase") {
+        if (!url || !anonKey) {
+            throw new Error("NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY must be set for Supabase auth");
+        }
+        return createSupabaseAuthProvider(cookieStore, url, anonKey);
+    }
+    if (env.NODE_ENV === "production" && env.AUTH_PROVIDER !== "local") {
+        throw new Error("Supabase auth is not configured");
+    }
+    return createLocalAuthProvider(cookieStore);
+}
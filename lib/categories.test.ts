@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { categoryBreakdown, categoryOptions, DEFAULT_CATEGORIES, findCategory } from "@/lib/categories";
+
+describe("categoryOptions", () => {
+    it("lists the defaults first, then the group's own categories", () => {
+        const options = categoryOptions([{ name: "Maid", emoji: null }]);
+
+        expect(options).toHaveLength(DEFAULT_CATEGORIES.length + 1);
+        expect(options[options.length - 1]).toEqual({ name: "Maid", emoji: "🏷️", custom: true });
+    });
+});
+
+describe("findCategory", () => {
+    it("matches names regardless of case and surrounding spaces", () => {
+        expect(findCategory(DEFAULT_CATEGORIES, "  food ")?.name).toBe("Food");
+        expect(findCategory(DEFAULT_CATEGORIES, "Fuel")).toBeUndefined();
+    });
+});
+
+describe("categoryBreakdown", () => {
+    it("totals expenses per category, largest first", () => {
+        const breakdown = categoryBreakdown([
+            { category: "Food", amount: 300 },
+            { category: "Rent", amount: 1500 },
+            { category: "Food", amount: 200 },
+        ]);
+
+        expect(breakdown).toEqual([
+            { category: "Rent", amount: 1500, count: 1 },
+            { category: "Food", amount: 500, count: 2 },
+        ]);
+    });
+});
@@ -0,0 +1,54 @@
+export interface CategoryOption {
+    name: string;
+    emoji: string;
+    /** True for categories a group added itself. */
+    custom: boolean;
+}
+
+export const DEFAULT_CATEGORY = "Other";
+
+/** Offered in every group. Groups can add their own on top. */
+export const DEFAULT_CATEGORIES: CategoryOption[] = [
+    { name: "Food", emoji: "🍽️", custom: false },
+    { name: "Groceries", emoji: "🛒", custom: false },
+    { name: "Travel", emoji: "✈️", custom: false },
+    { name: "Rent", emoji: "🏠", custom: false },
+    { name: "Utilities", emoji: "💡", custom: false },
+    { name: "Entertainment", emoji: "🎬", custom: false },
+    { name: "Shopping", emoji: "🛍️", custom: false },
+    { name: DEFAULT_CATEGORY, emoji: "📦", custom: false },
+];
+
+export const CUSTOM_CATEGORY_EMOJI = "🏷️";
+
+/** Default categories followed by the group's own, in the order they were added. */
+export function categoryOptions(custom: { name: string; emoji: string | null }[]): CategoryOption[] {
+    return [
+        ...DEFAULT_CATEGORIES,
+        ...custom.map((c) => ({ name: c.name, emoji: c.emoji || CUSTOM_CATEGORY_EMOJI, custom: true })),
+    ];
+}
+
+/** Finds an offered category by name, ignoring case, so "food" resolves to "Food". */
+export function findCategory(options: CategoryOption[], name: string): CategoryOption | undefined {
+    const wanted = name.trim().toLowerCase();
+    return options.find((option) => option.name.toLowerCase() === wanted);
+}
+
+export interface CategoryTotal {
+    category: string;
+    amount: number;
+    count: number;
+}
+
+/** Sums amounts per category, largest first. Amounts are passed through in whatever unit they come in. */
+export function categoryBreakdown(expenses: { category: string; amount: number }[]): CategoryTotal[] {
+    const totals = new Map<string, CategoryTotal>();
+    for (const expense of expenses) {
+        const total = totals.get(expense.category) ?? { category: expense.category, amount: 0, count: 0 };
+        total.amount += expense.amount;
+        total.count += 1;
+        totals.set(expense.category, total);
+    }
+    return [...totals.values()].sort((a, b) => b.amount - a.amount || a.category.localeCompare(b.category));
+}
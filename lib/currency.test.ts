@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { createConverter, parseRatesCsv } from "@/lib/currency";
+
+const rates = [
+    { fromCurrency: "USD", toCurrency: "INR", rate: 80, effectiveDate: new Date("2026-01-01") },
+    { fromCurrency: "USD", toCurrency: "INR", rate: 83, effectiveDate: new Date("2026-06-01") },
+    { fromCurrency: "INR", toCurrency: "EUR", rate: 0.011, effectiveDate: new Date("2026-01-01") },
+];
+
+describe("createConverter", () => {
+    const { canConvert, convert, rateOn } = createConverter(rates);
+
+    it("leaves amounts in the same currency untouched", () => {
+        expect(convert(1234, "INR", "INR")).toBe(1234);
+    });
+
+    it("uses the latest rate effective on the given date", () => {
+        expect(convert(1000, "USD", "INR", new Date("2026-03-01"))).toBe(80000);
+        expect(convert(1000, "USD", "INR", new Date("2026-07-01"))).toBe(83000);
+    });
+
+    it("falls back to the earliest rate for dates before any rate", () => {
+        expect(convert(1000, "USD", "INR", new Date("2025-01-01"))).toBe(80000);
+    });
+
+    it("reports the rate an expense is saved with", () => {
+        expect(rateOn("INR", "INR")).toBe(1);
+        expect(rateOn("USD", "INR", new Date("2026-07-01"))).toBe(83);
+    });
+
+    it("inverts a stored rate for the opposite direction", () => {
+        expect(convert(1100, "EUR", "INR", new Date("2026-02-01"))).toBe(100000);
+    });
+
+    it("refuses pairs it has no rate for", () => {
+        expect(canConvert("GBP", "INR")).toBe(false);
+        expect(() => convert(100, "GBP", "INR")).toThrow("No exchange rate from GBP to INR");
+    });
+});
+
+describe("parseRatesCsv", () => {
+    it("reads from, to, rate and optional date columns", () => {
+        const rows = parseRatesCsv("from,to,rate,date\nusd,INR,83.1,2026-05-01\nEUR,INR,90\n");
+
+        expect(rows).toHaveLength(2);
+        expect(rows[0]).toMatchObject({ fromCurrency: "USD", toCurrency: "INR", rate: 83.1 });
+        expect(rows[0].effectiveDate.toISOString()).toBe("2026-05-01T00:00:00.000Z");
+        expect(rows[1]).toMatchObject({ fromCurrency: "EUR", toCurrency: "INR", rate: 90 });
+    });
+
+    it("rejects rows with bad values", () => {
+        expect(() => parseRatesCsv("from,to,rate\nUSD,INR,-1")).toThrow("line 2");
+        expect(() => parseRatesCsv("currency,rate\nUSD,83")).toThrow("header");
+    });
+});
@@ -0,0 +1,101 @@
+export const DEFAULT_CURRENCY = "INR";
+
+/** Currencies offered in pickers. Any ISO 4217 code is accepted by the API. */
+export const CURRENCIES = ["INR", "USD", "EUR", "GBP", "AED", "SGD", "THB", "JPY", "AUD", "CAD"];
+
+export interface ExchangeRateRow {
+    fromCurrency: string;
+    toCurrency: string;
+    /** Units of `toCurrency` per one unit of `fromCurrency`. */
+    rate: number;
+    effectiveDate: Date;
+}
+
+export function isCurrencyCode(value: unknown): value is string {
+    return typeof value === "string" && /^[A-Z]{3}$/.test(value);
+}
+
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+    return new Intl.NumberFormat("en-IN", {
+        style: "currency",
+        currency,
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    }).format(amount);
+}
+
+/** Converts minor units at a fixed rate, such as the one an expense was saved with. */
+export function convertAtRate(minor: number, rate: number): number {
+    return Math.round(minor * rate);
+}
+
+/**
+ * Builds a converter over a table of exchange rates. For each conversion the
+ * latest rate effective on or before the given date wins; if the table only has
+ * later rates, the earliest one is used. A stored A→B rate also serves B→A.
+ * Amounts are minor units in, minor units out.
+ */
+export function createConverter(rates: ExchangeRateRow[]) {
+    const findRate = (from: string, to: string, at: Date): number | null => {
+        const candidates = rates
+            .map((r) => {
+                if (r.fromCurrency === from && r.toCurrency === to) return { rate: r.rate, date: r.effectiveDate };
+                if (r.fromCurrency === to && r.toCurrency === from) return { rate: 1 / r.rate, date: r.effectiveDate };
+                return null;
+            })
+            .filter((c): c is { rate: number; date: Date } => c !== null)
+            .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+        if (candidates.length === 0) return null;
+        const effective = candidates.filter((c) => c.date.getTime() <= at.getTime());
+        return effective.length > 0 ? effective[effective.length - 1].rate : candidates[0].rate;
+    };
+
+    const canConvert = (from: string, to: string, at: Date = new Date()) =>
+        from === to || findRate(from, to, at) !== null;
+
+    /** Units of `to` per one `from` on the given date; throws when there is no rate. */
+    const rateOn = (from: string, to: string, at: Date = new Date()): number => {
+        if (from === to) return 1;
+        const rate = findRate(from, to, at);
+        if (rate === null) {
+            throw new Error(`No exchange rate from ${from} to ${to}`);
+        }
+        return rate;
+    };
+
+    const convert = (minor: number, from: string, to: string, at: Date = new Date()): number =>
+        from === to ? minor : convertAtRate(minor, rateOn(from, to, at));
+
+    return { canConvert, convert, rateOn };
+}
+
+/**
+ * Parses an exchange-rate file with a `from,to,rate[,date]` header.
+ * Rows without a date take effect today.
+ */
+export function parseRatesCsv(text: string): ExchangeRateRow[] {
+    const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    if (lines.length === 0) return [];
+
+    const header = lines[0].toLowerCase().split(",").map((h) => h.trim());
+    const col = (name: string) => header.indexOf(name);
+    const [fromCol, toCol, rateCol, dateCol] = [col("from"), col("to"), col("rate"), col("date")];
+    if (fromCol < 0 || toCol < 0 || rateCol < 0) {
+        throw new Error("CSV header must include from, to and rate columns");
+    }
+
+    return lines.slice(1).map((line, i) => {
+        const cells = line.split(",").map((c) => c.trim());
+        const row = {
+            fromCurrency: cells[fromCol]?.toUpperCase(),
+            toCurrency: cells[toCol]?.toUpperCase(),
+            rate: Number(cells[rateCol]),
+            effectiveDate: dateCol >= 0 && cells[dateCol] ? new Date(cells[dateCol]) : new Date(),
+        };
+        if (!isCurrencyCode(row.fromCurrency) || !isCurrencyCode(row.toCurrency) || !(row.rate > 0) || isNaN(row.effectiveDate.getTime())) {
+            throw new Error(`Invalid exchange rate on line ${i + 2}`);
+        }
+        return row;
+    });
+}
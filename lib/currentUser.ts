@@ -0,0 +1,65 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { AuthIdentity, createAuthProvider, CookieStore } from "@/lib/auth";
+
+/** The auth provider bound to the current request's cookies. */
+export async function getAuthProvider() {
+    const jar = await cookies();
+    const store: CookieStore = {
+        getAll: () => jar.getAll(),
+        // Server components can't write cookies; token refreshes are picked up by the next route handler instead
+        set: (name, value, options) => {
+            try {
+                jar.set(name, value, options);
+            } catch {}
+        },
+        delete: (name) => {
+            try {
+                jar.delete(name);
+            } catch {}
+        },
+    };
+    return createAuthProvider(store);
+}
+
+/**
+ * Finds the User behind a confirmed auth identity: by provider id first, then
+ * by email (linking accounts that existed before sign-in did and were never
+ * linked), creating one otherwise. Returns null while the email is unconfirmed
+ * and when the email's User is already linked to another identity.
+ */
+export async function userForIdentity(identity: AuthIdentity) {
+    if (!identity.emailConfirmed) return null;
+
+    const linked = await prisma.user.findUnique({ where: { authId: identity.authId } });
+    if (linked) return linked;
+
+    const existing = await prisma.user.findUnique({ where: { email: identity.email } });
+    if (existing) {
+        // Conditional so two identities racing for the same row can't both claim it
+        const { count } = await prisma.user.updateMany({
+            where: { id: existing.id, authId: null },
+            data: { authId: identity.authId },
+        });
+        return count ? { ...existing, authId: identity.authId } : null;
+    }
+
+    return prisma.user.create({
+        data: {
+            name: identity.name?.trim() || identity.email.split("@")[0],
+            email: identity.email,
+            authId: identity.authId,
+        },
+    });
+}
+
+/** The signed-in User for this request, or null. */
+export async function getCurrentUser() {
+    const identity = await (await getAuthProvider()).getIdentity();
+    return identity ? userForIdentity(identity) : null;
+}
+
+export function unauthorized() {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+}
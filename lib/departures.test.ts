@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { departureSettlements, parseDepartureOptions } from "@/lib/departures";
+
+describe("parseDepartureOptions", () => {
+    it("writes the balance off unless someone is named to take it over", () => {
+        expect(parseDepartureOptions({})).toEqual({ force: false, resolution: { kind: "writeOff" }, reason: null });
+        expect(parseDepartureOptions({ force: true, transferToUserId: "ben", reason: " Moved away " })).toEqual({
+            force: true,
+            resolution: { kind: "transfer", toUserId: "ben" },
+            reason: "Moved away",
+        });
+    });
+
+    it("needs a reason to force a removal", () => {
+        expect(parseDepartureOptions({ force: true })).toHaveProperty("error");
+        expect(parseDepartureOptions({ force: "yes", reason: "x" })).toEqual({ error: "force must be true or false" });
+    });
+});
+
+describe("departureSettlements", () => {
+    it("moves the whole balance onto the named member", () => {
+        const transfer = { kind: "transfer", toUserId: "ben" } as const;
+        expect(departureSettlements("asha", 5000, transfer, ["ben", "chitra"])).toEqual([
+            { fromUserId: "ben", toUserId: "asha", amount: 5000 },
+        ]);
+        expect(departureSettlements("asha", -5000, transfer, ["ben", "chitra"])).toEqual([
+            { fromUserId: "asha", toUserId: "ben", amount: 5000 },
+        ]);
+    });
+
+    it("spreads a write-off evenly so the parts add up", () => {
+        const rows = departureSettlements("asha", -1000, { kind: "writeOff" }, ["ben", "chitra", "dev"]);
+        expect(rows.map((r) => r.amount)).toEqual([334, 333, 333]);
+        expect(rows.every((r) => r.fromUserId === "asha")).toBe(true);
+        expect(departureSettlements("asha", 2, { kind: "writeOff" }, ["ben", "chitra", "dev"])).toHaveLength(2);
+        expect(departureSettlements("asha", 0, { kind: "writeOff" }, ["ben"])).toEqual([]);
+    });
+});
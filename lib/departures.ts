@@ -0,0 +1,72 @@
+import { allocate } from "@/lib/money";
+
+export const MAX_REASON_LENGTH = 200;
+
+/**
+ * What happens to a departing member's balance when an admin removes them
+ * anyway: it is written off across everyone who stays, or handed to one of them.
+ */
+export type BalanceResolution =
+    | { kind: "writeOff" }
+    | { kind: "transfer"; toUserId: string };
+
+export interface DepartureOptions {
+    force: boolean;
+    resolution: BalanceResolution;
+    reason: string | null;
+}
+
+export interface DepartureSettlement {
+    fromUserId: string;
+    toUserId: string;
+    amount: number;
+}
+
+/**
+ * Reads `{ force?, transferToUserId?, reason? }`. A forced removal writes the
+ * balance off unless `transferToUserId` names who takes it over, and needs a
+ * reason so the activity log can say why.
+ */
+export function parseDepartureOptions(body: Record<string, unknown>): DepartureOptions | { error: string } {
+    if (body.force !== undefined && typeof body.force !== "boolean") return { error: "force must be true or false" };
+    const force = body.force === true;
+
+    const reason = typeof body.reason === "string" && body.reason.trim() ? body.reason.trim() : null;
+    if (reason && reason.length > MAX_REASON_LENGTH) {
+        return { error: `reason must be at most ${MAX_REASON_LENGTH} characters` };
+    }
+    if (force && !reason) return { error: "Give a reason when removing someone who isn't settled up" };
+
+    if (body.transferToUserId !== undefined && typeof body.transferToUserId !== "string") {
+        return { error: "transferToUserId must be a user id" };
+    }
+    const resolution: BalanceResolution = body.transferToUserId
+        ? { kind: "transfer", toUserId: body.transferToUserId }
+        : { kind: "writeOff" };
+
+    return { force, resolution, reason };
+}
+
+/**
+ * Settlement rows that bring `userId`'s balance (minor units, positive when
+ * they are owed) to zero. A transfer is one row with the new holder: they pay
+ * off what the member was owed, or are paid what the member owed, which moves
+ * the balance onto them. A write-off spreads it evenly over `remainingIds`.
+ */
+export function departureSettlements(
+    userId: string,
+    balance: number,
+    resolution: BalanceResolution,
+    remainingIds: string[]
+): DepartureSettlement[] {
+    if (balance === 0) return [];
+
+    const counterparts = resolution.kind === "transfer" ? [resolution.toUserId] : remainingIds;
+    const parts = allocate(Math.abs(balance), counterparts.map(() => 1));
+
+    return counterparts
+        .map((otherId, i) => balance > 0
+            ? { fromUserId: otherId, toUserId: userId, amount: parts[i] }
+            : { fromUserId: userId, toUserId: otherId, amount: parts[i] })
+        .filter((s) => s.amount > 0);
+}
@@ -0,0 +1,33 @@
+import { prisma } from "@/lib/prisma";
+import { createConverter, isCurrencyCode } from "@/lib/currency";
+
+/** A converter over one group's exchange rates. */
+export async function loadCurrencyConverter(groupId: string) {
+    const rates = await prisma.exchangeRate.findMany({ where: { groupId } });
+    return createConverter(rates);
+}
+
+/**
+ * Checks that an expense currency is usable in a group with the given base currency.
+ * Returns an error message, or null when the currency is fine.
+ */
+export async function checkExpenseCurrency(currency: unknown, groupId: string, baseCurrency: string): Promise<string | null> {
+    if (!isCurrencyCode(currency)) {
+        return "currency must be a three-letter ISO code";
+    }
+    const { canConvert } = await loadCurrencyConverter(groupId);
+    if (!canConvert(currency, baseCurrency)) {
+        return `No exchange rate from ${currency} to ${baseCurrency}. Add one before recording this expense.`;
+    }
+    return null;
+}
+
+/**
+ * The rate an expense is saved with: the group's rate from `currency` to its
+ * base currency effective on `at`. Saving it keeps rates posted later from
+ * changing expenses that are already recorded.
+ */
+export async function expenseExchangeRate(groupId: string, currency: string, baseCurrency: string, at: Date = new Date()) {
+    const { rateOn } = await loadCurrencyConverter(groupId);
+    return rateOn(currency, baseCurrency, at);
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import {
+    changesBalances,
+    describeExpenseChanges,
+    expenseUserIds,
+    findUnreconciledExpenses,
+    parseItemized,
+    parsePayers,
+    serializeExpense,
+    validateExpense,
+} from "@/lib/expenses";
+
+const base = {
+    description: "Dinner",
+    amount: 10000,
+    currency: "INR",
+    splitType: "EQUAL",
+    category: "Food",
+    paidBy: { name: "Alice" },
+};
+
+describe("serializeExpense", () => {
+    it("converts the expense and its splits to major units", () => {
+        const expense = serializeExpense({ id: "e1", amount: 10000, splits: [{ userId: "a", amount: 3334 }] });
+
+        expect(expense).toEqual({ id: "e1", amount: 100, splits: [{ userId: "a", amount: 33.34 }] });
+    });
+});
+
+describe("parseItemized", () => {
+    it("converts item amounts and extras to paise and drops duplicate members", () => {
+        const parsed = parseItemized({
+            items: [{ description: "Pizza", amount: 600, userIds: ["a", "b", "a"] }],
+            taxAmount: 30,
+            tipAmount: "10.50",
+        });
+
+        expect(parsed).toEqual({
+            itemized: {
+                items: [{ description: "Pizza", amount: 60000, userIds: ["a", "b"] }],
+                taxAmount: 3000,
+                serviceCharge: 0,
+                tipAmount: 1050,
+            },
+        });
+    });
+
+    it("rejects items without members", () => {
+        const parsed = parseItemized({ items: [{ description: "Pizza", amount: 600, userIds: [] }] });
+
+        expect(parsed).toEqual({ error: "Item 1 needs a description, a positive amount and at least one member" });
+    });
+});
+
+describe("parsePayers", () => {
+    it("falls back to paidById paying the whole amount", () => {
+        expect(parsePayers({}, 10000, "a")).toEqual({ payers: [{ userId: "a", amount: 10000 }], paidById: "a" });
+    });
+
+    it("makes the largest payer the primary one", () => {
+        const parsed = parsePayers({ payers: [{ userId: "a", amount: 40 }, { userId: "b", amount: 60 }] }, 10000, "a");
+
+        expect(parsed).toEqual({
+            payers: [{ userId: "a", amount: 4000 }, { userId: "b", amount: 6000 }],
+            paidById: "b",
+        });
+    });
+
+    it("rejects payers that do not add up to the amount", () => {
+        const parsed = parsePayers({ payers: [{ userId: "a", amount: 40 }] }, 10000, "a");
+
+        expect(parsed).toEqual({ error: "payers must add up to the expense amount" });
+    });
+});
+
+describe("validateExpense", () => {
+    const draft = { description: "Dinner", amount: 10000, currency: "INR", memberIds: ["a", "b"], paidById: "a" };
+
+    it("accepts a valid expense", () => {
+        expect(validateExpense({ ...draft, splitType: "EQUAL" })).toEqual({});
+    });
+
+    it("rejects EXACT splits that don't add up and members outside the group", () => {
+        const errors = validateExpense({
+            ...draft,
+            paidById: "z",
+            splitType: "EXACT",
+            splits: [{ userId: "a", amount: 40 }, { userId: "c", amount: 40 }],
+        });
+
+        expect(errors).toEqual({
+            paidById: "Payer is not a member of this group",
+            "splits[1].userId": "Not a member of this group",
+        });
+    });
+
+    it("reports the EXACT total once every split is valid", () => {
+        const errors = validateExpense({ ...draft, splitType: "EXACT", splits: [{ userId: "a", amount: 40 }, { userId: "b", amount: 40 }] });
+
+        expect(errors).toEqual({ splits: "Split amounts add up to ₹80.00 instead of ₹100.00" });
+    });
+
+    it("requires PERCENT splits to total 100", () => {
+        const errors = validateExpense({ ...draft, splitType: "PERCENT", splits: [{ userId: "a", percent: 50 }, { userId: "b", percent: 40 }] });
+
+        expect(errors).toEqual({ splits: "Percentages add up to 90% instead of 100%" });
+    });
+
+    it("allows PERCENT splits only within the shared tolerance of 100", () => {
+        const thirds = (percent: number) => ({
+            ...draft,
+            memberIds: ["a", "b", "c"],
+            splitType: "PERCENT",
+            splits: ["a", "b", "c"].map((userId) => ({ userId, percent })),
+        });
+
+        expect(validateExpense(thirds(33.333))).toEqual({ splits: "Percentages add up to 99.999% instead of 100%" });
+        expect(validateExpense(thirds(33.33334))).toEqual({});
+    });
+});
+
+describe("findUnreconciledExpenses", () => {
+    it("flags expenses whose splits don't add up to the amount", () => {
+        const issues = findUnreconciledExpenses([
+            { id: "e1", description: "Ok", amount: 1000, currency: "INR", paidById: "a", payers: [], splits: [{ userId: "a", amount: 1000 }] },
+            { id: "e2", description: "Bad", amount: 1000, currency: "INR", paidById: "a", payers: [], splits: [{ userId: "b", amount: 900 }] },
+        ], ["a", "b"]);
+
+        expect(issues).toEqual([{ expenseId: "e2", description: "Bad", issues: ["splits add up to ₹9.00 instead of ₹10.00"] }]);
+    });
+});
+
+describe("describeExpenseChanges", () => {
+    it("lists every changed field", () => {
+        const message = describeExpenseChanges(base, {
+            ...base,
+            description: "Dinner at Thalassa",
+            amount: 12000,
+            paidBy: { name: "Bob" },
+        });
+
+        expect(message).toBe('description "Dinner" → "Dinner at Thalassa", amount ₹100.00 → ₹120.00, paid by Alice → Bob');
+    });
+
+    it("falls back to a generic note when only the splits changed", () => {
+        expect(describeExpenseChanges(base, base)).toBe("splits recalculated");
+    });
+});
+
+describe("expenseUserIds", () => {
+    it("lists every payer and participant once", () => {
+        expect(expenseUserIds({
+            paidById: "d",
+            payers: [{ userId: "d" }, { userId: "a" }],
+            splits: [{ userId: "a" }, { userId: "b" }],
+        })).toEqual(["d", "a", "b"]);
+    });
+});
+
+describe("changesBalances", () => {
+    const existing = { paidById: "d", currency: "INR" };
+
+    it("is set by changes to the amount, currency, split or payers", () => {
+        expect(changesBalances({ splits: [{ userId: "a", amount: 10 }] }, existing)).toBe(true);
+        expect(changesBalances({ amount: 120 }, existing)).toBe(true);
+        expect(changesBalances({ paidById: "a" }, existing)).toBe(true);
+        expect(changesBalances({ currency: "USD" }, existing)).toBe(true);
+    });
+
+    it("ignores descriptive edits and unchanged values", () => {
+        expect(changesBalances({ description: "Dinner", category: "Food" }, existing)).toBe(false);
+        expect(changesBalances({ paidById: "d", currency: "INR" }, existing)).toBe(false);
+    });
+});
@@ -0,0 +1,350 @@
+import { formatMoney, fromMinor, toMinor } from "@/lib/money";
+import { ComputedSplit, computeSplits, ItemizedInput, PERCENT_TOLERANCE, SPLIT_TYPES, SplitInput } from "@/lib/splits";
+
+interface StoredAmounts {
+    amount: number;
+    payers?: { amount: number }[];
+    splits?: { amount: number }[];
+    items?: { amount: number }[];
+    taxAmount?: number;
+    serviceCharge?: number;
+    tipAmount?: number;
+}
+
+/**
+ * Converts an expense row (and its payers, splits and receipt items, if loaded) from
+ * stored paise back to rupees for API responses.
+ */
+export function serializeExpense<T extends StoredAmounts>(expense: T): T {
+    return {
+        ...expense,
+        amount: fromMinor(expense.amount),
+        ...(expense.payers && {
+            payers: expense.payers.map((payer) => ({ ...payer, amount: fromMinor(payer.amount) })),
+        }),
+        ...(expense.splits && {
+            splits: expense.splits.map((split) => ({ ...split, amount: fromMinor(split.amount) })),
+        }),
+        ...(expense.items && {
+            items: expense.items.map((item) => ({ ...item, amount: fromMinor(item.amount) })),
+        }),
+        ...(expense.taxAmount !== undefined && { taxAmount: fromMinor(expense.taxAmount) }),
+        ...(expense.serviceCharge !== undefined && { serviceCharge: fromMinor(expense.serviceCharge) }),
+        ...(expense.tipAmount !== undefined && { tipAmount: fromMinor(expense.tipAmount) }),
+    };
+}
+
+/**
+ * Reads the receipt of an ITEMIZED expense from a request body (major units)
+ * into minor units. Returns an error message if the receipt is unusable.
+ */
+export function parseItemized(body: Record<string, unknown>): { itemized: ItemizedInput } | { error: string } {
+    if (!Array.isArray(body.items) || body.items.length === 0) {
+        return { error: "items are required for an ITEMIZED expense" };
+    }
+
+    const items = body.items.map((item: { description?: string; amount?: string | number; userIds?: string[] }) => ({
+        description: String(item.description ?? "").trim(),
+        amount: toMinor(item.amount ?? 0),
+        userIds: Array.isArray(item.userIds) ? [...new Set(item.userIds)] : [],
+    }));
+
+    const invalid = items.findIndex((item) => !item.description || item.amount <= 0 || item.userIds.length === 0);
+    if (invalid >= 0) {
+        return { error: `Item ${invalid + 1} needs a description, a positive amount and at least one member` };
+    }
+
+    const itemized = {
+        items,
+        taxAmount: toMinor((body.taxAmount as string | number) ?? 0),
+        serviceCharge: toMinor((body.serviceCharge as string | number) ?? 0),
+        tipAmount: toMinor((body.tipAmount as string | number) ?? 0),
+    };
+    if (itemized.taxAmount < 0 || itemized.serviceCharge < 0 || itemized.tipAmount < 0) {
+        return { error: "taxAmount, serviceCharge and tipAmount cannot be negative" };
+    }
+
+    return { itemized };
+}
+
+/** Nested Prisma data that stores a receipt's items and extras on an expense. */
+export function itemizedExpenseData({ items, taxAmount, serviceCharge, tipAmount }: ItemizedInput) {
+    return {
+        taxAmount,
+        serviceCharge,
+        tipAmount,
+        items: {
+            create: items.map((item) => ({
+                description: item.description,
+                amount: item.amount,
+                participants: { create: item.userIds.map((userId) => ({ userId })) },
+            })),
+        },
+    };
+}
+
+/**
+ * Reads who paid for an expense from a request body (major units) into minor units.
+ * Without a `payers` list, `paidById` paid the whole amount. The payer who paid the
+ * most becomes the expense's primary `paidById`.
+ */
+export function parsePayers(
+    body: Record<string, unknown>,
+    amount: number,
+    paidById: string
+): { payers: ComputedSplit[]; paidById: string } | { error: string } {
+    if (body.payers === undefined) {
+        return paidById
+            ? { payers: [{ userId: paidById, amount }], paidById }
+            : { error: "paidById or payers is required" };
+    }
+    if (!Array.isArray(body.payers) || body.payers.length === 0) {
+        return { error: "payers must be a non-empty list" };
+    }
+
+    const payers = body.payers.map((payer: { userId?: string; amount?: string | number }) => ({
+        userId: String(payer.userId ?? ""),
+        amount: toMinor(payer.amount ?? 0),
+    }));
+    if (payers.some((payer) => !payer.userId || payer.amount <= 0)) {
+        return { error: "Each payer needs a userId and a positive amount" };
+    }
+    if (new Set(payers.map((payer) => payer.userId)).size !== payers.length) {
+        return { error: "Each payer can only be listed once" };
+    }
+    if (payers.reduce((sum, payer) => sum + payer.amount, 0) !== amount) {
+        return { error: "payers must add up to the expense amount" };
+    }
+
+    const primary = payers.reduce((top, payer) => (payer.amount > top.amount ? payer : top));
+    return { payers, paidById: primary.userId };
+}
+
+/** "Alice" for a single payer, "Alice & Bob" when the bill was shared at checkout. */
+export function payerNames(expense: { paidBy: { name: string }; payers?: { user: { name: string } }[] }): string {
+    return expense.payers && expense.payers.length > 1
+        ? expense.payers.map((payer) => payer.user.name).join(" & ")
+        : expense.paidBy.name;
+}
+
+/** Everyone whose balance an expense moves: its payers and the people it's split between. */
+export function expenseUserIds(expense: { paidById: string; payers: { userId: string }[]; splits: { userId: string }[] }): string[] {
+    return [...new Set([expense.paidById, ...expense.payers.map((p) => p.userId), ...expense.splits.map((s) => s.userId)])];
+}
+
+/**
+ * Whether an update changes what the expense moves between people (the amount,
+ * currency, split or payers) rather than only how it's described.
+ */
+export function changesBalances(body: Record<string, unknown>, existing: { paidById: string; currency: string }): boolean {
+    return ["amount", "splitType", "splits", "items", "payers"].some((field) => body[field] !== undefined)
+        || (body.paidById !== undefined && body.paidById !== existing.paidById)
+        || (body.currency !== undefined && body.currency !== existing.currency);
+}
+
+/** Why an expense involving people who have left can't be changed or deleted. */
+export function departedMembersError(names: string[]): string {
+    return `This expense involves people who have left the group (${names.join(", ")}), so its amounts can't be changed or deleted`;
+}
+
+/** Validation messages keyed by request field, e.g. `splits[1].userId`. */
+export type FieldErrors = Record<string, string>;
+
+export interface ExpenseDraft {
+    description: string;
+    /** Minor units. */
+    amount: number;
+    currency: string;
+    splitType: string;
+    memberIds: string[];
+    /** Checked when the request names a single payer. */
+    paidById?: string;
+    /** Checked when the request lists several payers (minor units). */
+    payers?: ComputedSplit[];
+    /** Checked when the splits are being (re)built. */
+    splits?: SplitInput[];
+    itemized?: ItemizedInput;
+}
+
+const isNumber = (value: unknown) => value !== null && value !== "" && Number.isFinite(Number(value));
+
+/**
+ * Checks an expense against its group before anything is written, so bad splits
+ * can't silently skew balances. Returns an empty object when the expense is valid.
+ */
+export function validateExpense(draft: ExpenseDraft): FieldErrors {
+    const errors: FieldErrors = {};
+    const isMember = (userId: string) => draft.memberIds.includes(userId);
+
+    if (!draft.description.trim()) {
+        errors.description = "Description is required";
+    }
+    if (!Number.isFinite(draft.amount) || draft.amount <= 0) {
+        errors.amount = "Amount must be greater than 0";
+    }
+    if (draft.memberIds.length === 0) {
+        errors.groupId = "Cannot add an expense to an empty group";
+    }
+    if (!SPLIT_TYPES.includes(draft.splitType)) {
+        errors.splitType = `splitType must be one of ${SPLIT_TYPES.join(", ")}`;
+        return errors;
+    }
+
+    if (draft.paidById !== undefined && !isMember(draft.paidById)) {
+        errors.paidById = "Payer is not a member of this group";
+    }
+    draft.payers?.forEach((payer, i) => {
+        if (!isMember(payer.userId)) errors[`payers[${i}].userId`] = "Payer is not a member of this group";
+    });
+
+    draft.itemized?.items.forEach((item, i) => {
+        if (item.userIds.some((userId) => !isMember(userId))) {
+            errors[`items[${i}].userIds`] = "Every member on an item must belong to this group";
+        }
+    });
+
+    const splits = draft.splits;
+    if (!splits || draft.splitType === "ITEMIZED") {
+        return errors;
+    }
+    if (!Array.isArray(splits) || (splits.length === 0 && draft.splitType !== "EQUAL" && draft.splitType !== "ADJUSTMENT")) {
+        errors.splits = `splits are required for a ${draft.splitType} expense`;
+        return errors;
+    }
+    if (new Set(splits.map((s) => s.userId)).size !== splits.length) {
+        errors.splits = "Each member can only appear once in splits";
+    }
+    if (draft.splitType === "EQUAL") {
+        splits.forEach((split, i) => {
+            if (!isMember(split.userId)) errors[`splits[${i}].userId`] = "Not a member of this group";
+        });
+        return errors;
+    }
+
+    const value = (split: SplitInput) => ({
+        EXACT: split.amount,
+        PERCENT: split.percent,
+        SHARES: split.shares,
+        ADJUSTMENT: split.adjustment,
+    } as Record<string, unknown>)[draft.splitType];
+    const field = { EXACT: "amount", PERCENT: "percent", SHARES: "shares", ADJUSTMENT: "adjustment" }[draft.splitType];
+
+    splits.forEach((split, i) => {
+        if (!isMember(split.userId)) {
+            errors[`splits[${i}].userId`] = "Not a member of this group";
+        }
+        const v = value(split);
+        if (!isNumber(v) || (draft.splitType !== "ADJUSTMENT" && Number(v) < 0)) {
+            errors[`splits[${i}].${field}`] = draft.splitType === "ADJUSTMENT" ? "Must be a number" : "Must be a non-negative number";
+        } else if (draft.splitType === "SHARES" && Number(v) === 0) {
+            errors[`splits[${i}].shares`] = "Must be greater than 0";
+        }
+    });
+    if (Object.keys(errors).some((key) => key.startsWith("splits")) || errors.amount) {
+        return errors;
+    }
+
+    if (draft.splitType === "EXACT") {
+        const total = splits.reduce((sum, s) => sum + toMinor(s.amount ?? 0), 0);
+        if (total !== draft.amount) {
+            errors.splits = `Split amounts add up to ${formatMoney(total, draft.currency)} instead of ${formatMoney(draft.amount, draft.currency)}`;
+        }
+    } else if (draft.splitType === "PERCENT") {
+        const total = splits.reduce((sum, s) => sum + Number(s.percent), 0);
+        if (Math.abs(total - 100) > PERCENT_TOLERANCE) {
+            errors.splits = `Percentages add up to ${Number(total.toFixed(4))}% instead of 100%`;
+        }
+    } else if (draft.splitType === "ADJUSTMENT") {
+        const computed = computeSplits({ ...draft, splits });
+        if (computed.some((s) => s.amount < 0)) {
+            errors.splits = "Adjustments leave someone with a negative share";
+        }
+    }
+
+    return errors;
+}
+
+export interface ReconciliationIssue {
+    expenseId: string;
+    description: string;
+    issues: string[];
+}
+
+/**
+ * Finds stored expenses whose rows don't line up: splits or payers that don't add
+ * up to the amount, or people who aren't in the group. Amounts are minor units.
+ */
+export function findUnreconciledExpenses(
+    expenses: {
+        id: string;
+        description: string;
+        amount: number;
+        currency: string;
+        paidById: string;
+        payers: ComputedSplit[];
+        splits: ComputedSplit[];
+    }[],
+    memberIds: string[]
+): ReconciliationIssue[] {
+    return expenses
+        .map((expense) => {
+            const issues: string[] = [];
+            const money = (minor: number) => formatMoney(minor, expense.currency);
+
+            const splitTotal = expense.splits.reduce((sum, s) => sum + s.amount, 0);
+            if (expense.splits.length > 0 && splitTotal !== expense.amount) {
+                issues.push(`splits add up to ${money(splitTotal)} instead of ${money(expense.amount)}`);
+            }
+            const payerTotal = expense.payers.reduce((sum, p) => sum + p.amount, 0);
+            if (expense.payers.length > 0 && payerTotal !== expense.amount) {
+                issues.push(`payers add up to ${money(payerTotal)} instead of ${money(expense.amount)}`);
+            }
+
+            const outsiders = new Set(
+                [expense.paidById, ...expense.payers.map((p) => p.userId), ...expense.splits.map((s) => s.userId)]
+                    .filter((userId) => !memberIds.includes(userId))
+            );
+            if (outsiders.size > 0) {
+                issues.push(`${outsiders.size} ${outsiders.size === 1 ? "person is" : "people are"} not a member of the group`);
+            }
+
+            return { expenseId: expense.id, description: expense.description, issues };
+        })
+        .filter((result) => result.issues.length > 0);
+}
+
+interface ExpenseSnapshot {
+    description: string;
+    amount: number;
+    currency: string;
+    splitType: string;
+    category: string;
+    paidBy: { name: string };
+    payers?: { user: { name: string } }[];
+}
+
+/**
+ * Describes what changed between two versions of an expense for the activity log,
+ * e.g. `amount ₹100.00 → ₹120.00, paid by Alice → Bob`.
+ */
+export function describeExpenseChanges(before: ExpenseSnapshot, after: ExpenseSnapshot): string {
+    const changes: string[] = [];
+
+    if (before.description !== after.description) {
+        changes.push(`description "${before.description}" → "${after.description}"`);
+    }
+    if (before.amount !== after.amount || before.currency !== after.currency) {
+        changes.push(`amount ${formatMoney(before.amount, before.currency)} → ${formatMoney(after.amount, after.currency)}`);
+    }
+    if (payerNames(before) !== payerNames(after)) {
+        changes.push(`paid by ${payerNames(before)} → ${payerNames(after)}`);
+    }
+    if (before.category !== after.category) {
+        changes.push(`category ${before.category} → ${after.category}`);
+    }
+    if (before.splitType !== after.splitType) {
+        changes.push(`split ${before.splitType} → ${after.splitType}`);
+    }
+
+    return changes.length > 0 ? changes.join(", ") : "splits recalculated";
+}
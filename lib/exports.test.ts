@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { expenseCsvRows, inRange, parseExportOptions, settlementCsvRows, toCsv } from "@/lib/exports";
+
+const params = (query: string) => new URLSearchParams(query);
+
+describe("parseExportOptions", () => {
+    it("defaults to the PDF over all time", () => {
+        expect(parseExportOptions(params(""))).toEqual({ format: "pdf", table: "expenses", from: null, to: null });
+    });
+
+    it("includes the whole of the last day", () => {
+        const options = parseExportOptions(params("format=csv&table=settlements&from=2026-05-01&to=2026-05-31"));
+        if ("error" in options) throw new Error(options.error);
+        expect(options.table).toBe("settlements");
+        expect(inRange(new Date("2026-05-31T23:59:00Z"), options)).toBe(true);
+        expect(inRange(new Date("2026-06-01T00:00:00Z"), options)).toBe(false);
+        expect(inRange(new Date("2026-04-30T23:59:00Z"), options)).toBe(false);
+    });
+
+    it("rejects unknown formats and bad ranges", () => {
+        expect(parseExportOptions(params("format=xlsx"))).toHaveProperty("error");
+        expect(parseExportOptions(params("from=May 1"))).toHaveProperty("error");
+        expect(parseExportOptions(params("from=2026-06-01&to=2026-05-01"))).toEqual({ error: "from must not be after to" });
+    });
+});
+
+describe("toCsv", () => {
+    it("quotes what needs quoting and defuses formulas", () => {
+        expect(toCsv(["a", "b"], [["Dinner, drinks", 'The "good" one'], ["=SUM(A1)", -12.5], [null, 0]]))
+            .toBe('a,b\r\n"Dinner, drinks","The ""good"" one"\r\n\'=SUM(A1),-12.5\r\n,0\r\n');
+    });
+});
+
+describe("expenseCsvRows", () => {
+    const expense = {
+        id: "e1",
+        createdAt: new Date("2026-05-02T10:00:00Z"),
+        description: "Dinner",
+        category: "Food",
+        splitType: "EXACT",
+        amount: 3000,
+        currency: "USD",
+        baseAmount: 249000,
+        paidBy: "Asha",
+        splits: [{ userId: "u1", amount: 1000 }, { userId: "u2", amount: 2000 }],
+    };
+    const names: Record<string, string> = { u1: "Asha", u2: "Ben" };
+
+    it("writes one row per split", () => {
+        expect(expenseCsvRows([expense], "INR", (id) => names[id])).toEqual([
+            ["2026-05-02", "e1", "Dinner", "Food", "EXACT", "Asha", "Asha", 10, 30, "USD", 2490, "INR"],
+            ["2026-05-02", "e1", "Dinner", "Food", "EXACT", "Asha", "Ben", 20, 30, "USD", 2490, "INR"],
+        ]);
+    });
+
+    it("keeps expenses without splits as one row", () => {
+        expect(expenseCsvRows([{ ...expense, splits: [] }], "INR", (id) => names[id])).toHaveLength(1);
+    });
+});
+
+describe("settlementCsvRows", () => {
+    it("includes the UPI reference and void details", () => {
+        const [row] = settlementCsvRows([{
+            id: "s1",
+            createdAt: new Date("2026-05-03T00:00:00Z"),
+            amount: 50000,
+            fromUser: { name: "Ben" },
+            toUser: { name: "Asha" },
+            upiReference: "412345678901",
+            note: null,
+            voidedAt: new Date("2026-05-04T00:00:00Z"),
+            voidReason: "Paid twice",
+        }], "INR");
+        expect(row).toEqual(["2026-05-03", "s1", "Ben", "Asha", 500, "INR", "412345678901", null, "2026-05-04", "Paid twice"]);
+    });
+});
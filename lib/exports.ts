@@ -0,0 +1,125 @@
+import { fromMinor } from "@/lib/money";
+
+export const EXPORT_FORMATS = ["pdf", "csv"] as const;
+export const CSV_TABLES = ["expenses", "settlements"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type CsvTable = (typeof CSV_TABLES)[number];
+
+export interface ExportOptions {
+    format: ExportFormat;
+    table: CsvTable;
+    /** Inclusive, from the start of the day (UTC). */
+    from: Date | null;
+    /** Inclusive, to the end of the day (UTC). */
+    to: Date | null;
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(value: string | null, name: string): Date | null | { error: string } {
+    if (!value) return null;
+    const day = new Date(`${value}T00:00:00Z`);
+    if (!DAY_PATTERN.test(value) || isNaN(day.getTime())) return { error: `${name} must be a date like 2026-05-01` };
+    return day;
+}
+
+/** Reads `?format=pdf|csv&table=expenses|settlements&from=YYYY-MM-DD&to=YYYY-MM-DD`. */
+export function parseExportOptions(params: URLSearchParams): ExportOptions | { error: string } {
+    const format = params.get("format") ?? "pdf";
+    if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+        return { error: `format must be one of ${EXPORT_FORMATS.join(", ")}` };
+    }
+    const table = params.get("table") ?? "expenses";
+    if (!(CSV_TABLES as readonly string[]).includes(table)) {
+        return { error: `table must be one of ${CSV_TABLES.join(", ")}` };
+    }
+
+    const from = parseDay(params.get("from"), "from");
+    if (from && "error" in from) return from;
+    const start = parseDay(params.get("to"), "to");
+    if (start && "error" in start) return start;
+    const to = start ? new Date(start.getTime() + DAY_MS - 1) : null;
+    if (from && to && from > to) return { error: "from must not be after to" };
+
+    return { format: format as ExportFormat, table: table as CsvTable, from, to };
+}
+
+export const inRange = (date: Date, { from, to }: Pick<ExportOptions, "from" | "to">) =>
+    (!from || date >= from) && (!to || date <= to);
+
+type Cell = string | number | null | undefined;
+
+/**
+ * RFC 4180 CSV with a header row. Text cells that a spreadsheet would run as a
+ * formula (starting with =, +, -, @) are prefixed with a quote.
+ */
+export function toCsv(header: string[], rows: Cell[][]): string {
+    const cell = (value: Cell) => {
+        if (value === null || value === undefined) return "";
+        let text = String(value);
+        if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [header, ...rows].map((row) => row.map(cell).join(",")).join("\r\n") + "\r\n";
+}
+
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+export const EXPENSE_CSV_HEADER = [
+    "date", "expense_id", "description", "category", "split_type", "paid_by",
+    "participant", "share", "amount", "currency", "base_amount", "base_currency",
+];
+
+export interface ExportExpense {
+    id: string;
+    createdAt: Date;
+    description: string;
+    category: string;
+    splitType: string;
+    /** Minor units of `currency`, as are the splits. */
+    amount: number;
+    currency: string;
+    /** Minor units of the group's base currency. */
+    baseAmount: number;
+    paidBy: string;
+    splits: { userId: string; amount: number }[];
+}
+
+/**
+ * One row per split. Older expenses without split rows get a single row with
+ * no participant, since they were split evenly across whoever was a member.
+ */
+export function expenseCsvRows(expenses: ExportExpense[], baseCurrency: string, nameOf: (userId: string) => string): Cell[][] {
+    return expenses.flatMap((e) => {
+        const expense = [day(e.createdAt), e.id, e.description, e.category, e.splitType, e.paidBy];
+        const totals = [fromMinor(e.amount), e.currency, fromMinor(e.baseAmount), baseCurrency];
+        if (e.splits.length === 0) return [[...expense, null, null, ...totals]];
+        return e.splits.map((s) => [...expense, nameOf(s.userId), fromMinor(s.amount), ...totals]);
+    });
+}
+
+export const SETTLEMENT_CSV_HEADER = [
+    "date", "settlement_id", "from", "to", "amount", "currency", "upi_reference", "note", "voided_at", "void_reason",
+];
+
+export interface ExportSettlement {
+    id: string;
+    createdAt: Date;
+    /** Minor units of the group's base currency. */
+    amount: number;
+    fromUser: { name: string };
+    toUser: { name: string };
+    upiReference: string | null;
+    note: string | null;
+    voidedAt: Date | null;
+    voidReason: string | null;
+}
+
+export function settlementCsvRows(settlements: ExportSettlement[], baseCurrency: string): Cell[][] {
+    return settlements.map((s) => [
+        day(s.createdAt), s.id, s.fromUser.name, s.toUser.name, fromMinor(s.amount), baseCurrency,
+        s.upiReference, s.note, s.voidedAt ? day(s.voidedAt) : null, s.voidReason,
+    ]);
+}
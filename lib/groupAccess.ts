@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import type { GroupMember } from "@/lib/generated/prisma/client";
+import { can, GroupAction } from "@/lib/roles";
+
+export type GroupAccess = { membership: GroupMember } | { denied: NextResponse };
+
+/** Prisma filter for the groups a user belongs to and hasn't left. */
+export function memberGroupsWhere(userId: string) {
+    return { members: { some: { userId, leftAt: null } } };
+}
+
+export function forbidden(message = "Your role in this group doesn't allow that") {
+    return NextResponse.json({ error: message }, { status: 403 });
+}
+
+/**
+ * Checks that the user is a member of the group and, when `action` is given,
+ * that their role allows it. People who have left count as outsiders. Unknown
+ * groups are a 404, changes to an archived group a 409 and everything else a
+ * 403, so routes can return `denied` as is.
+ */
+export async function groupAccess(userId: string, groupId: string, action?: GroupAction): Promise<GroupAccess> {
+    const found = await prisma.groupMember.findUnique({
+        where: { userId_groupId: { userId, groupId } },
+        include: { group: { select: { archivedAt: true } } },
+    });
+    if (found && !found.leftAt) {
+        const { group, ...membership } = found;
+        if (!action) return { membership };
+        if (!can(membership.role, action)) return { denied: forbidden() };
+        if (!can(membership.role, action, !!group.archivedAt)) {
+            return { denied: NextResponse.json({ error: "This group is archived. Unarchive it to make changes" }, { status: 409 }) };
+        }
+        return { membership };
+    }
+
+    const group = await prisma.group.findUnique({ where: { id: groupId }, select: { id: true } });
+    return {
+        denied: group
+            ? forbidden("You are not a member of this group")
+            : NextResponse.json({ error: "Group not found" }, { status: 404 }),
+    };
+}
+
+/**
+ * Which of these users have left the group. Their balances were settled when
+ * they went, so changing what they paid or owe would land on everyone else.
+ */
+export async function departedMembers(groupId: string, userIds: string[]) {
+    return prisma.groupMember.findMany({
+        where: { groupId, userId: { in: userIds }, leftAt: { not: null } },
+        include: { user: true },
+    });
+}
@@ -0,0 +1,17 @@
+import { prisma } from "@/lib/prisma";
+import { categoryOptions, findCategory } from "@/lib/categories";
+
+/** Every category an expense in this group may use: the defaults plus the group's own. */
+export async function loadGroupCategories(groupId: string) {
+    const custom = await prisma.category.findMany({
+        where: { groupId },
+        orderBy: { createdAt: "asc" },
+    });
+    return categoryOptions(custom);
+}
+
+/** Resolves a requested category to the name it is stored under, or null if the group doesn't offer it. */
+export async function resolveCategory(groupId: string, value: unknown): Promise<string | null> {
+    if (typeof value !== "string") return null;
+    return findCategory(await loadGroupCategories(groupId), value)?.name ?? null;
+}
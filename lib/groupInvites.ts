@@ -0,0 +1,132 @@
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { inviteAcceptanceError, inviteStatus } from "@/lib/invites";
+import type { GroupInvite, GroupMember, Prisma, User } from "@/lib/generated/prisma/client";
+
+export const newInviteToken = () => randomBytes(24).toString("base64url");
+
+export const inviteLink = (origin: string, token: string) => `${origin}/invite/${token}`;
+
+/** An invite as the API returns it, with its status and shareable link. */
+export function serializeInvite(invite: GroupInvite, origin: string, now = new Date()) {
+    return {
+        id: invite.id,
+        groupId: invite.groupId,
+        email: invite.email,
+        placeholderId: invite.placeholderId,
+        role: invite.role,
+        maxUses: invite.maxUses,
+        useCount: invite.useCount,
+        expiresAt: invite.expiresAt,
+        createdAt: invite.createdAt,
+        status: inviteStatus(invite, now),
+        link: inviteLink(origin, invite.token),
+    };
+}
+
+/**
+ * Hands everything recorded against a placeholder to `userId`: memberships,
+ * expenses paid and owed, receipt items, recurring expenses and settlements.
+ * The placeholder is then deleted, and any other invites to claim it revoked.
+ */
+async function claimPlaceholder(
+    tx: Prisma.TransactionClient,
+    { placeholderId, inviteId, userId }: { placeholderId: string; inviteId: string; userId: string },
+    now: Date
+) {
+    const from = { userId: placeholderId };
+    const to = { userId };
+    await tx.groupMember.updateMany({ where: from, data: to });
+    await tx.expenseSplit.updateMany({ where: from, data: to });
+    await tx.expensePayer.updateMany({ where: from, data: to });
+    await tx.expenseItemParticipant.updateMany({ where: from, data: to });
+    await tx.expense.updateMany({ where: { paidById: placeholderId }, data: { paidById: userId } });
+    await tx.recurringExpense.updateMany({ where: { paidById: placeholderId }, data: { paidById: userId } });
+    await tx.settlement.updateMany({ where: { fromUserId: placeholderId }, data: { fromUserId: userId } });
+    await tx.settlement.updateMany({ where: { toUserId: placeholderId }, data: { toUserId: userId } });
+    await tx.groupInvite.updateMany({
+        where: { placeholderId, revokedAt: null, id: { not: inviteId } },
+        data: { revokedAt: now },
+    });
+    await tx.user.delete({ where: { id: placeholderId } });
+}
+
+/**
+ * Adds the user to the invite's group with the invite's role, or, for a
+ * placeholder's invite, lets them take over the placeholder's place and
+ * history. Someone who left earlier gets their old membership back. Someone
+ * who is already a member keeps their membership and doesn't
+ * use the invite up; the use count only moves while the invite still has uses
+ * left, so two people racing for a single-use link can't both get in.
+ */
+export async function acceptInvite(
+    token: string,
+    user: User,
+    now = new Date()
+): Promise<{ membership: GroupMember; joined: boolean } | { error: string; status: number }> {
+    return prisma.$transaction(async (tx) => {
+        const invite = await tx.groupInvite.findUnique({ where: { token }, include: { group: true, placeholder: true } });
+        if (!invite) return { error: "Invite not found", status: 404 };
+        if (invite.group.archivedAt) return { error: "This group has been archived", status: 410 };
+
+        const existing = await tx.groupMember.findUnique({
+            where: { userId_groupId: { userId: user.id, groupId: invite.groupId } },
+        });
+        if (existing && invite.placeholder) {
+            return { error: `You're already in this group, so you can't take over ${invite.placeholder.name}'s place`, status: 409 };
+        }
+        if (existing && !existing.leftAt) return { membership: existing, joined: false };
+
+        // A placeholder in several groups is only claimable when the user is in none of them
+        if (invite.placeholder) {
+            const overlap = await tx.groupMember.count({
+                where: { userId: user.id, group: { members: { some: { userId: invite.placeholder.id } } } },
+            });
+            if (overlap > 0) {
+                return { error: `You already share a group with ${invite.placeholder.name}, so their history can't be merged into yours`, status: 409 };
+            }
+        }
+
+        const error = inviteAcceptanceError(invite, user.email, now);
+        // An active invite that still refuses is addressed to someone else
+        if (error) return { error, status: inviteStatus(invite, now) === "active" ? 403 : 410 };
+
+        const claimed = await tx.groupInvite.updateMany({
+            where: {
+                id: invite.id,
+                revokedAt: null,
+                ...(invite.maxUses !== null ? { useCount: { lt: invite.maxUses } } : {}),
+            },
+            data: { useCount: { increment: 1 } },
+        });
+        if (claimed.count === 0) return { error: "This invite has already been used", status: 410 };
+
+        if (invite.placeholder) {
+            await claimPlaceholder(tx, { placeholderId: invite.placeholder.id, inviteId: invite.id, userId: user.id }, now);
+        } else if (existing) {
+            await tx.groupMember.update({
+                where: { id: existing.id },
+                data: { role: invite.role, leftAt: null },
+            });
+        } else {
+            await tx.groupMember.create({
+                data: { groupId: invite.groupId, userId: user.id, role: invite.role },
+            });
+        }
+        const membership = await tx.groupMember.findUniqueOrThrow({
+            where: { userId_groupId: { userId: user.id, groupId: invite.groupId } },
+        });
+
+        await tx.activityLog.create({
+            data: {
+                groupId: invite.groupId,
+                type: invite.placeholder ? "PLACEHOLDER_CLAIMED" : "MEMBER_JOINED",
+                message: invite.placeholder
+                    ? `${user.name} joined and took over ${invite.placeholder.name}'s expenses and payments`
+                    : `${user.name} joined the group via an invite`,
+            },
+        });
+
+        return { membership, joined: true };
+    });
+}
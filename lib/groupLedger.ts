@@ -0,0 +1,89 @@
+import { prisma } from "@/lib/prisma";
+import { buildLedger, Ledger } from "@/lib/ledger";
+import { planAdjustedSettlements, AdjustedSettlementPlan, SettlementAlgorithm, settlementResidue } from "@/lib/settlement";
+import type { Group } from "@/lib/generated/prisma/client";
+import { allocate } from "@/lib/money";
+import { convertAtRate, DEFAULT_CURRENCY } from "@/lib/currency";
+
+/**
+ * Loads everything the ledger needs for a group and folds it.
+ * Expenses in other currencies are converted to the group's base currency at the
+ * `exchangeRate` saved with them, so rates posted later don't change them; each
+ * returned expense carries that converted `baseAmount` next to its original
+ * `amount` and `currency`.
+ * Settlements are always recorded in the base currency.
+ * The raw rows are returned alongside so callers (e.g. the PDF export) can list them.
+ * `members` includes people who have left, marked by `leftAt`; only current
+ * members get a balance, since theirs was brought to zero when they left.
+ */
+export async function loadGroupLedger(groupId: string) {
+    const group = await prisma.group.findUnique({
+        where: { id: groupId },
+    });
+    const currency = group?.baseCurrency ?? DEFAULT_CURRENCY;
+
+    const members = await prisma.groupMember.findMany({
+        where: { groupId },
+        include: { user: true },
+    });
+
+    const rawExpenses = await prisma.expense.findMany({
+        where: { groupId },
+        include: { paidBy: true, payers: { include: { user: true } }, splits: true },
+        orderBy: { createdAt: "asc" },
+    });
+
+    const settlements = await prisma.settlement.findMany({
+        where: { groupId },
+        include: { fromUser: true, toUser: true },
+        orderBy: { createdAt: "asc" },
+    });
+
+    const expenses = rawExpenses.map((expense) => ({
+        ...expense,
+        baseAmount: expense.currency === currency ? expense.amount : convertAtRate(expense.amount, expense.exchangeRate),
+    }));
+
+    const ledger = buildLedger({
+        members: members.filter((m) => !m.leftAt).map((m) => ({ userId: m.userId, name: m.user.name })),
+        expenses: expenses.map((expense) => {
+            if (expense.currency === currency) return expense;
+            // Convert the splits as a block so they keep adding up after rounding
+            const splitTotal = expense.splits.reduce((sum, s) => sum + s.amount, 0);
+            const parts = allocate(
+                convertAtRate(splitTotal, expense.exchangeRate),
+                expense.splits.map((s) => s.amount)
+            );
+            const paid = allocate(expense.baseAmount, expense.payers.map((p) => p.amount));
+            return {
+                ...expense,
+                amount: expense.baseAmount,
+                payers: expense.payers.map((p, i) => ({ ...p, amount: paid[i] })),
+                splits: expense.splits.map((s, i) => ({ ...s, amount: parts[i] })),
+            };
+        }),
+        settlements,
+    });
+
+    return { group, currency, members, expenses, settlements, ledger };
+}
+
+/**
+ * The plan a group is shown: pairwise when it doesn't simplify debts (with
+ * whatever the pairs don't cover as residue), otherwise the simplified plan
+ * shaped by its rounding, minimum transfer and per-person cap.
+ */
+export function groupSettlementPlan(
+    group: Group | null,
+    ledger: Ledger,
+    algorithm: SettlementAlgorithm = "exact"
+): Omit<AdjustedSettlementPlan, "algorithm"> & { algorithm: SettlementAlgorithm | "pairwise" } {
+    if (group && !group.simplifyDebts) {
+        return { algorithm: "pairwise", transactions: ledger.pairwisePlan, residue: settlementResidue(ledger.balances, ledger.pairwisePlan) };
+    }
+    return planAdjustedSettlements(ledger.balances, {
+        roundTo: group?.settlementRounding ?? 0,
+        minTransfer: group?.minTransfer ?? 0,
+        maxTransfersPerPerson: group?.maxTransfersPerPerson ?? null,
+    }, algorithm);
+}
@@ -0,0 +1,28 @@
+import { prisma } from "@/lib/prisma";
+import { loadGroupLedger } from "@/lib/groupLedger";
+import { memberGroupsWhere } from "@/lib/groupAccess";
+import { toMinor } from "@/lib/money";
+import type { PairLeg } from "@/lib/netting";
+
+/**
+ * What `userId` owes `otherUserId` directly in each group they are both current
+ * members of, from the group's pairwise plan. Archived groups are left out,
+ * since no payments can be recorded in them.
+ */
+export async function loadPairLegs(userId: string, otherUserId: string): Promise<PairLeg[]> {
+    const groups = await prisma.group.findMany({
+        where: { archivedAt: null, AND: [memberGroupsWhere(userId), memberGroupsWhere(otherUserId)] },
+        orderBy: { createdAt: "asc" },
+    });
+
+    const legs: PairLeg[] = [];
+    for (const group of groups) {
+        const { currency, ledger } = await loadGroupLedger(group.id);
+        const debt = ledger.pairwisePlan.find((t) =>
+            (t.fromId === userId && t.toId === otherUserId) || (t.fromId === otherUserId && t.toId === userId));
+        if (!debt) continue;
+        const amount = toMinor(debt.amount);
+        legs.push({ groupId: group.id, groupName: group.name, currency, amount: debt.fromId === userId ? amount : -amount });
+    }
+    return legs;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { MAX_GROUP_NAME_LENGTH, parseGroupName, parseGroupSettings } from "@/lib/groupSettings";
+
+describe("parseGroupSettings", () => {
+    it("keeps only the fields that were sent", () => {
+        expect(parseGroupSettings({ name: " Goa 2026 " })).toEqual({ name: "Goa 2026" });
+        expect(parseGroupSettings({ emoji: "🏖️", archived: true })).toEqual({ emoji: "🏖️", archived: true });
+    });
+
+    it("clears the description and emoji with empty values", () => {
+        expect(parseGroupSettings({ description: "  ", emoji: null })).toEqual({ description: null, emoji: null });
+    });
+
+    it("rejects blank names, stray types and empty changes", () => {
+        expect(parseGroupSettings({ name: "" })).toHaveProperty("error");
+        expect(parseGroupSettings({ archived: "yes" })).toEqual({ error: "archived must be true or false" });
+        expect(parseGroupSettings({ simplifyDebts: 0 })).toEqual({ error: "simplifyDebts must be true or false" });
+        expect(parseGroupSettings({ emoji: "not an emoji at all" })).toEqual({ error: "emoji must be a single emoji" });
+        expect(parseGroupSettings({})).toHaveProperty("error");
+    });
+
+    it("stores settlement options in minor units", () => {
+        expect(parseGroupSettings({ settlementRounding: 10, minTransfer: 5, maxTransfersPerPerson: 2 }))
+            .toEqual({ settlementRounding: 1000, minTransfer: 500, maxTransfersPerPerson: 2 });
+        expect(parseGroupSettings({ maxTransfersPerPerson: null })).toEqual({ maxTransfersPerPerson: null });
+        expect(parseGroupSettings({ settlementRounding: 5 })).toHaveProperty("error");
+        expect(parseGroupSettings({ minTransfer: -1 })).toHaveProperty("error");
+        expect(parseGroupSettings({ maxTransfersPerPerson: 0 })).toHaveProperty("error");
+    });
+});
+
+describe("parseGroupName", () => {
+    it("trims names and rejects blank, overlong or missing ones", () => {
+        expect(parseGroupName(" Goa 2026 ")).toEqual({ name: "Goa 2026" });
+        expect(parseGroupName("x".repeat(MAX_GROUP_NAME_LENGTH))).toHaveProperty("name");
+        expect(parseGroupName("x".repeat(MAX_GROUP_NAME_LENGTH + 1))).toHaveProperty("error");
+        expect(parseGroupName("   ")).toHaveProperty("error");
+        expect(parseGroupName(undefined)).toHaveProperty("error");
+    });
+});
@@ -0,0 +1,104 @@
+import { toMinor } from "@/lib/money";
+
+export const MAX_GROUP_NAME_LENGTH = 60;
+export const MAX_DESCRIPTION_LENGTH = 280;
+/** Major units settlement plans can be rounded to; 0 keeps exact amounts. */
+export const SETTLEMENT_ROUNDING_STEPS = [0, 1, 10];
+
+export interface GroupSettingsChange {
+    name?: string;
+    /** null clears it. */
+    description?: string | null;
+    /** null clears it. */
+    emoji?: string | null;
+    archived?: boolean;
+    /** false settles debts pair by pair instead of routing money through others. */
+    simplifyDebts?: boolean;
+    /** Minor units. */
+    settlementRounding?: number;
+    /** Minor units. */
+    minTransfer?: number;
+    /** null removes the cap. */
+    maxTransfersPerPerson?: number | null;
+}
+
+/** Group names follow the same rules when a group is created and when it's renamed. */
+export function parseGroupName(value: unknown): { name: string } | { error: string } {
+    const name = typeof value === "string" ? value.trim() : "";
+    if (!name || name.length > MAX_GROUP_NAME_LENGTH) {
+        return { error: `Group name must be 1 to ${MAX_GROUP_NAME_LENGTH} characters` };
+    }
+    return { name };
+}
+
+const optionalText = (value: unknown) =>
+    value === null || (typeof value === "string" && !value.trim()) ? null : typeof value === "string" ? value.trim() : undefined;
+
+/**
+ * Reads `{ name?, description?, emoji?, archived?, simplifyDebts?,
+ * settlementRounding?, minTransfer?, maxTransfersPerPerson? }`, keeping only the
+ * fields that were sent. Empty strings (or null) clear the description and
+ * emoji. Amounts come in major units and are returned in minor units.
+ */
+export function parseGroupSettings(body: Record<string, unknown>): GroupSettingsChange | { error: string } {
+    const change: GroupSettingsChange = {};
+
+    if (body.name !== undefined) {
+        const name = parseGroupName(body.name);
+        if ("error" in name) return name;
+        change.name = name.name;
+    }
+
+    if (body.description !== undefined) {
+        const description = optionalText(body.description);
+        if (description === undefined) return { error: "description must be text" };
+        if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+            return { error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+        }
+        change.description = description;
+    }
+
+    if (body.emoji !== undefined) {
+        const emoji = optionalText(body.emoji);
+        // A single emoji can be several code points (flags, skin tones, ZWJ sequences)
+        if (emoji === undefined || (emoji && [...emoji].length > 8)) return { error: "emoji must be a single emoji" };
+        change.emoji = emoji;
+    }
+
+    if (body.archived !== undefined) {
+        if (typeof body.archived !== "boolean") return { error: "archived must be true or false" };
+        change.archived = body.archived;
+    }
+
+    if (body.simplifyDebts !== undefined) {
+        if (typeof body.simplifyDebts !== "boolean") return { error: "simplifyDebts must be true or false" };
+        change.simplifyDebts = body.simplifyDebts;
+    }
+
+    if (body.settlementRounding !== undefined) {
+        if (!SETTLEMENT_ROUNDING_STEPS.includes(body.settlementRounding as number)) {
+            return { error: `settlementRounding must be one of ${SETTLEMENT_ROUNDING_STEPS.join(", ")}` };
+        }
+        change.settlementRounding = toMinor(body.settlementRounding as number);
+    }
+
+    if (body.minTransfer !== undefined) {
+        if (typeof body.minTransfer !== "number" || !Number.isFinite(body.minTransfer) || body.minTransfer < 0) {
+            return { error: "minTransfer must be zero or a positive amount" };
+        }
+        change.minTransfer = toMinor(body.minTransfer);
+    }
+
+    if (body.maxTransfersPerPerson !== undefined) {
+        const cap = body.maxTransfersPerPerson;
+        if (cap !== null && (!Number.isInteger(cap) || (cap as number) < 1)) {
+            return { error: "maxTransfersPerPerson must be a whole number of at least 1, or null" };
+        }
+        change.maxTransfersPerPerson = cap as number | null;
+    }
+
+    if (Object.keys(change).length === 0) {
+        return { error: "Nothing to change; send name, description, emoji, archived, simplifyDebts or a settlement option" };
+    }
+    return change;
+}
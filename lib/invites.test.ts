@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INVITE_DAYS, inviteAcceptanceError, inviteStatus, parseInviteOptions } from "@/lib/invites";
+
+const now = new Date("2026-03-01T10:00:00Z");
+
+describe("parseInviteOptions", () => {
+    it("defaults to a single-use member invite that lasts a week", () => {
+        expect(parseInviteOptions({}, now)).toEqual({
+            email: null,
+            placeholderId: null,
+            role: "MEMBER",
+            maxUses: 1,
+            expiresAt: new Date(now.getTime() + DEFAULT_INVITE_DAYS * 24 * 60 * 60 * 1000),
+        });
+    });
+
+    it("allows unlimited links but keeps email and claim invites single-use", () => {
+        expect(parseInviteOptions({ maxUses: null }, now)).toMatchObject({ maxUses: null });
+        expect(parseInviteOptions({ email: "Asha@Example.com", maxUses: 5 }, now)).toEqual({ error: "Email invites can only be used once" });
+        expect(parseInviteOptions({ email: " Asha@Example.com " }, now)).toMatchObject({ email: "asha@example.com", maxUses: 1 });
+        expect(parseInviteOptions({ placeholderId: "ph-1", maxUses: null }, now)).toEqual({ error: "A placeholder can only be claimed once" });
+    });
+
+    it("rejects owner invites and out-of-range expiries", () => {
+        expect(parseInviteOptions({ role: "OWNER" }, now)).toEqual({ error: "role must be ADMIN, MEMBER or VIEWER" });
+        expect(parseInviteOptions({ expiresInDays: 90 }, now)).toHaveProperty("error");
+        expect(parseInviteOptions({ maxUses: 0 }, now)).toHaveProperty("error");
+    });
+});
+
+describe("inviteStatus", () => {
+    const invite = { email: null, maxUses: 2, useCount: 0, expiresAt: new Date("2026-03-08T10:00:00Z"), revokedAt: null };
+
+    it("reports revoked, used up and expired invites", () => {
+        expect(inviteStatus(invite, now)).toBe("active");
+        expect(inviteStatus({ ...invite, useCount: 2 }, now)).toBe("used");
+        expect(inviteStatus({ ...invite, maxUses: null, useCount: 40 }, now)).toBe("active");
+        expect(inviteStatus(invite, new Date("2026-03-08T10:00:00Z"))).toBe("expired");
+        expect(inviteStatus({ ...invite, revokedAt: now }, now)).toBe("revoked");
+    });
+});
+
+describe("inviteAcceptanceError", () => {
+    const invite = { email: "asha@example.com", maxUses: 1, useCount: 0, expiresAt: new Date("2026-03-08T10:00:00Z"), revokedAt: null };
+
+    it("only lets the invited address accept an email invite", () => {
+        expect(inviteAcceptanceError(invite, "Asha@example.com", now)).toBeNull();
+        expect(inviteAcceptanceError(invite, "ben@example.com", now)).toMatch(/for asha@example.com/);
+        expect(inviteAcceptanceError({ ...invite, useCount: 1 }, "asha@example.com", now)).toBe("This invite has already been used");
+    });
+});
@@ -0,0 +1,78 @@
+import { GroupRole, isGroupRole } from "@/lib/roles";
+
+export const DEFAULT_INVITE_DAYS = 7;
+export const MAX_INVITE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface InviteOptions {
+    /** Only this address may accept; null for a link anyone can use. */
+    email: string | null;
+    /** A placeholder member whose history the invitee takes over. */
+    placeholderId: string | null;
+    role: Exclude<GroupRole, "OWNER">;
+    /** null means any number of people, until the invite expires. */
+    maxUses: number | null;
+    expiresAt: Date;
+}
+
+export interface InviteState {
+    email: string | null;
+    maxUses: number | null;
+    useCount: number;
+    expiresAt: Date;
+    revokedAt: Date | null;
+}
+
+export type InviteStatus = "active" | "expired" | "revoked" | "used";
+
+const isEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+/**
+ * Reads `{ email?, placeholderId?, role?, maxUses?, expiresInDays? }`. Invites
+ * are single-use unless `maxUses` says otherwise (`null` for unlimited); email
+ * invites and placeholder claims are always single-use.
+ */
+export function parseInviteOptions(body: Record<string, unknown>, now: Date): InviteOptions | { error: string } {
+    const email = typeof body.email === "string" && body.email.trim() ? body.email.trim().toLowerCase() : null;
+    if (email && !isEmail(email)) return { error: "Enter a valid email address" };
+
+    const placeholderId = typeof body.placeholderId === "string" && body.placeholderId ? body.placeholderId : null;
+
+    const role = body.role ?? "MEMBER";
+    if (!isGroupRole(role) || role === "OWNER") return { error: "role must be ADMIN, MEMBER or VIEWER" };
+
+    const maxUses = body.maxUses === undefined ? 1 : body.maxUses;
+    if (maxUses !== null && (typeof maxUses !== "number" || !Number.isInteger(maxUses) || maxUses < 1)) {
+        return { error: "maxUses must be a positive whole number, or null for unlimited" };
+    }
+    if (email && maxUses !== 1) return { error: "Email invites can only be used once" };
+    if (placeholderId && maxUses !== 1) return { error: "A placeholder can only be claimed once" };
+
+    const days = body.expiresInDays ?? DEFAULT_INVITE_DAYS;
+    if (typeof days !== "number" || !(days > 0) || days > MAX_INVITE_DAYS) {
+        return { error: `expiresInDays must be between 1 and ${MAX_INVITE_DAYS}` };
+    }
+
+    return { email, placeholderId, role, maxUses, expiresAt: new Date(now.getTime() + days * DAY_MS) };
+}
+
+export function inviteStatus(invite: InviteState, now: Date): InviteStatus {
+    if (invite.revokedAt) return "revoked";
+    if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return "used";
+    if (invite.expiresAt.getTime() <= now.getTime()) return "expired";
+    return "active";
+}
+
+/** Why `email` can't accept the invite right now, or null when it can. */
+export function inviteAcceptanceError(invite: InviteState, email: string | null, now: Date): string | null {
+    switch (inviteStatus(invite, now)) {
+        case "revoked": return "This invite has been revoked";
+        case "used": return "This invite has already been used";
+        case "expired": return "This invite has expired";
+    }
+    if (invite.email && invite.email !== email?.toLowerCase()) {
+        return `This invite is for ${invite.email}. Sign in with that address to accept it`;
+    }
+    return null;
+}
@@ -0,0 +1,206 @@
+import { planSettlements, BalanceEntity, SettlementTransaction } from "@/lib/settlement";
+import { allocate, fromMinor } from "@/lib/money";
+
+export interface LedgerMember {
+    userId: string;
+    name: string;
+}
+
+export interface LedgerSplit {
+    userId: string;
+    amount: number;
+}
+
+export interface LedgerPayer {
+    userId: string;
+    amount: number;
+}
+
+export interface LedgerExpense {
+    amount: number;
+    paidById: string;
+    payers?: LedgerPayer[];
+    splits?: LedgerSplit[];
+}
+
+export interface LedgerSettlement {
+    fromUserId: string;
+    toUserId: string;
+    amount: number;
+    voidedAt?: Date | null;
+}
+
+export interface LedgerEdge {
+    from: string;
+    to: string;
+    amount: number;
+}
+
+export interface LedgerBalance extends BalanceEntity {
+    totalSpent: number;
+}
+
+export interface LedgerInput {
+    members: LedgerMember[];
+    expenses: LedgerExpense[];
+    settlements: LedgerSettlement[];
+}
+
+export interface Ledger {
+    totalExpenses: number;
+    perPersonShare: number;
+    balances: LedgerBalance[];
+    rawEdges: LedgerEdge[];
+    /** How many of the raw edges come from expenses, i.e. what paying every debt as it arose would take. */
+    expenseEdgeCount: number;
+    settlementPlan: SettlementTransaction[];
+    /** Transfers only between people who owe each other directly, for groups that don't simplify debts. */
+    pairwisePlan: SettlementTransaction[];
+}
+
+/**
+ * Folds a group's expenses, splits and recorded settlements into net balances.
+ * Inputs are integer minor units; everything returned is in major units.
+ * A positive balance means the member gets money back, a negative one means they owe.
+ * Expenses without split rows are treated as an equal split across current members.
+ * Each payer is credited with what they paid; expenses without payer rows were paid
+ * in full by `paidById`. A debtor's raw edges are spread across the payers in
+ * proportion to what each of them paid.
+ * Voided settlements are skipped entirely.
+ * Users who are no longer members still appear in raw edges but carry no balance.
+ * The pairwise plan nets each pair's debts in both directions, recorded
+ * settlements included. Debts with someone who isn't a member any more are
+ * passed through them: whoever owed them pays whoever they owed instead. What
+ * can't be passed on is left out of the plan.
+ */
+export function buildLedger({ members, expenses, settlements }: LedgerInput): Ledger {
+    const balances: Record<string, number> = {};
+    const totalSpent: Record<string, number> = {};
+    members.forEach((member) => {
+        balances[member.userId] = 0;
+        totalSpent[member.userId] = 0;
+    });
+
+    const rawEdges: LedgerEdge[] = [];
+    let totalExpenses = 0;
+
+    // What the first id of each "a|b" pair owes the second, in minor units
+    const pairDebts = new Map<string, number>();
+    const owe = (from: string, to: string, amount: number) => {
+        const [key, sign] = from < to ? [`${from}|${to}`, 1] : [`${to}|${from}`, -1];
+        pairDebts.set(key, (pairDebts.get(key) ?? 0) + sign * amount);
+    };
+
+    const charge = (userId: string, amount: number, payers: LedgerPayer[]) => {
+        if (balances[userId] !== undefined) {
+            balances[userId] -= amount;
+            totalSpent[userId] += amount;
+        }
+        const parts = allocate(amount, payers.map((p) => p.amount));
+        payers.forEach((payer, i) => {
+            // Avoid self-edges
+            if (userId !== payer.userId && parts[i] !== 0) {
+                rawEdges.push({ from: userId, to: payer.userId, amount: fromMinor(parts[i]) });
+                owe(userId, payer.userId, parts[i]);
+            }
+        });
+    };
+
+    for (const expense of expenses) {
+        const amount = expense.amount;
+        totalExpenses += amount;
+
+        const payers = expense.payers && expense.payers.length > 0
+            ? expense.payers
+            : [{ userId: expense.paidById, amount }];
+
+        if (expense.splits && expense.splits.length > 0) {
+            for (const split of expense.splits) {
+                charge(split.userId, split.amount, payers);
+            }
+        } else if (members.length > 0) {
+            const parts = allocate(amount, members.map(() => 1));
+            members.forEach((member, i) => charge(member.userId, parts[i], payers));
+        }
+
+        for (const payer of payers) {
+            if (balances[payer.userId] !== undefined) {
+                balances[payer.userId] += payer.amount;
+            }
+        }
+    }
+
+    const expenseEdgeCount = rawEdges.length;
+
+    for (const settlement of settlements) {
+        if (settlement.voidedAt) continue;
+
+        const amount = settlement.amount;
+        if (balances[settlement.fromUserId] !== undefined) {
+            balances[settlement.fromUserId] += amount;
+        }
+        if (balances[settlement.toUserId] !== undefined) {
+            balances[settlement.toUserId] -= amount;
+        }
+
+        owe(settlement.toUserId, settlement.fromUserId, amount);
+
+        // Raw settlements reduce existing raw debt lines.
+        // For visual continuity, we map them as direct edges from payer to receiver.
+        rawEdges.push({
+            from: settlement.fromUserId,
+            to: settlement.toUserId,
+            amount: fromMinor(amount),
+        });
+    }
+
+    const balanceArray: LedgerBalance[] = members.map((member) => ({
+        userId: member.userId,
+        name: member.name,
+        balance: fromMinor(balances[member.userId]),
+        totalSpent: fromMinor(totalSpent[member.userId]),
+    }));
+
+    const nameOf = new Map(members.map((m) => [m.userId, m.name]));
+    // A departed member's balance was settled onto the people who stayed, so
+    // their debts in both directions now run between those people
+    const departed = new Set([...pairDebts.keys()].flatMap((key) => key.split("|")).filter((id) => !nameOf.has(id)));
+    for (const id of departed) {
+        const owedBy: { userId: string; amount: number }[] = [];
+        const owes: { userId: string; amount: number }[] = [];
+        for (const [key, debt] of pairDebts) {
+            const [a, b] = key.split("|");
+            if (debt === 0 || (a !== id && b !== id)) continue;
+            // What the other side owes the departed member
+            const owed = a === id ? -debt : debt;
+            (owed > 0 ? owedBy : owes).push({ userId: a === id ? b : a, amount: Math.abs(owed) });
+            pairDebts.delete(key);
+        }
+        for (let i = 0, j = 0; i < owedBy.length && j < owes.length;) {
+            const amount = Math.min(owedBy[i].amount, owes[j].amount);
+            owe(owedBy[i].userId, owes[j].userId, amount);
+            owedBy[i].amount -= amount;
+            owes[j].amount -= amount;
+            if (owedBy[i].amount === 0) i++;
+            if (owes[j].amount === 0) j++;
+        }
+    }
+
+    const pairwisePlan: SettlementTransaction[] = [];
+    for (const [key, debt] of pairDebts) {
+        const [a, b] = key.split("|");
+        if (debt === 0 || !nameOf.has(a) || !nameOf.has(b)) continue;
+        const [fromId, toId] = debt > 0 ? [a, b] : [b, a];
+        pairwisePlan.push({ from: nameOf.get(fromId)!, to: nameOf.get(toId)!, fromId, toId, amount: fromMinor(Math.abs(debt)) });
+    }
+
+    return {
+        totalExpenses: fromMinor(totalExpenses),
+        perPersonShare: members.length > 0 ? fromMinor(totalExpenses) / members.length : 0,
+        balances: balanceArray,
+        rawEdges,
+        expenseEdgeCount,
+        settlementPlan: planSettlements(balanceArray).transactions,
+        pairwisePlan,
+    };
+}
@@ -0,0 +1,50 @@
+export interface InviteEmail {
+    to: string;
+    groupName: string;
+    inviterName: string;
+    link: string;
+    expiresAt: Date;
+}
+
+/**
+ * Sends a group invitation through Resend's HTTP API when RESEND_API_KEY and
+ * MAIL_FROM are set. Otherwise nothing is sent, and the caller shares the link
+ * by hand. Resolves to whether an email actually went out; it never throws.
+ */
+export async function sendInviteEmail(email: InviteEmail, env: Record<string, string | undefined> = process.env) {
+    const apiKey = env.RESEND_API_KEY;
+    const from = env.MAIL_FROM;
+    if (!apiKey || !from) {
+        // The link carries the invite's token, so it stays out of the logs
+        console.info(`Email not configured; skipped the invite email for ${email.to} to ${email.groupName}`);
+        return false;
+    }
+
+    // The invite is already saved by now, so a failed send falls back to sharing the link
+    try {
+        const res = await fetch("https://api.resend.com/emails", {
+            method: "POST",
+            headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+            body: JSON.stringify({
+                from,
+                to: email.to,
+                subject: `${email.inviterName} invited you to ${email.groupName} on YourSplit`,
+                text: [
+                    `${email.inviterName} invited you to split expenses in ${email.groupName}.`,
+                    "",
+                    `Join here: ${email.link}`,
+                    "",
+                    `The invite expires on ${email.expiresAt.toDateString()}.`,
+                ].join("\n"),
+            }),
+        });
+        if (!res.ok) {
+            console.error("Invite email failed:", res.status, await res.text().catch(() => ""));
+            return false;
+        }
+        return true;
+    } catch (error) {
+        console.error("Invite email failed:", error);
+        return false;
+    }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { allocate, formatMoney, fromMinor, toMinor } from "@/lib/money";
+
+describe("toMinor / fromMinor", () => {
+    it("round-trips rupee amounts through paise", () => {
+        expect(toMinor(100)).toBe(10000);
+        expect(toMinor("19.99")).toBe(1999);
+        expect(toMinor(0.1 + 0.2)).toBe(30);
+        expect(fromMinor(3333)).toBe(33.33);
+    });
+
+    it("formats minor units in the given currency", () => {
+        expect(formatMoney(123456)).toBe("₹1,234.56");
+        expect(formatMoney(5000, "USD")).toBe("$50.00");
+    });
+});
+
+describe("allocate", () => {
+    it("always adds up to the total", () => {
+        expect(allocate(10000, [1, 1, 1])).toEqual([3334, 3333, 3333]);
+        expect(allocate(101, [1, 1])).toEqual([51, 50]);
+        expect(allocate(1, [1, 1, 1])).toEqual([1, 0, 0]);
+    });
+
+    it("hands leftovers to the largest remainders first", () => {
+        // Exact shares are 16.67 / 33.33 / 50: the first part has the largest remainder.
+        expect(allocate(100, [1, 2, 3])).toEqual([17, 33, 50]);
+    });
+
+    it("allocates negative totals symmetrically", () => {
+        expect(allocate(-10000, [1, 1, 1])).toEqual([-3334, -3333, -3333]);
+    });
+
+    it("returns zeros when there is nothing to weigh", () => {
+        expect(allocate(500, [0, 0])).toEqual([0, 0]);
+        expect(allocate(500, [])).toEqual([]);
+    });
+});
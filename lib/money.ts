@@ -0,0 +1,52 @@
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency";
+
+/**
+ * Money is stored as integer minor units (paise) everywhere in the database.
+ * API payloads keep using major units (rupees) so clients don't have to care.
+ * Every currency is treated as having 100 minor units.
+ */
+export const MINOR_UNITS_PER_MAJOR = 100;
+
+export function toMinor(amount: number | string): number {
+    return Math.round(Number(amount) * MINOR_UNITS_PER_MAJOR);
+}
+
+export function fromMinor(minor: number): number {
+    return minor / MINOR_UNITS_PER_MAJOR;
+}
+
+export function formatMoney(minor: number, currency: string = DEFAULT_CURRENCY): string {
+    return formatCurrency(fromMinor(minor), currency);
+}
+
+/**
+ * Splits an integer total into integer parts proportional to `weights`.
+ * Uses the largest-remainder method: every part gets its floored share, then the
+ * leftover units go one at a time to the largest fractional remainders.
+ * Ties are broken by position, so the same input always yields the same output
+ * and the parts always add up exactly to `total`.
+ */
+export function allocate(total: number, weights: number[]): number[] {
+    const weightSum = weights.reduce((sum, w) => sum + w, 0);
+    if (weights.length === 0 || weightSum === 0) {
+        return weights.map(() => 0);
+    }
+
+    const sign = total < 0 ? -1 : 1;
+    const absTotal = Math.abs(total);
+
+    const exact = weights.map((w) => (absTotal * w) / weightSum);
+    const parts = exact.map((e) => Math.floor(e));
+    let leftover = absTotal - parts.reduce((sum, p) => sum + p, 0);
+
+    const order = exact
+        .map((e, index) => ({ index, remainder: e - Math.floor(e) }))
+        .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+    for (let k = 0; leftover > 0; k = (k + 1) % order.length) {
+        parts[order[k].index] += 1;
+        leftover--;
+    }
+
+    return parts.map((p) => p * sign);
+}
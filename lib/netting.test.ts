@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { legSettlements, netPairLegs } from "@/lib/netting";
+
+const goa = { groupId: "goa", groupName: "Goa Trip", currency: "INR", amount: 50000 };
+const flat = { groupId: "flat", groupName: "Flat", currency: "INR", amount: -30000 };
+
+describe("netPairLegs", () => {
+    it("turns debts in both directions into one payment", () => {
+        const [transfer] = netPairLegs("me", "bob", [goa, flat]);
+        expect(transfer).toMatchObject({ currency: "INR", fromUserId: "me", toUserId: "bob", amount: 20000 });
+
+        const [reverse] = netPairLegs("me", "bob", [{ ...goa, amount: 10000 }, flat]);
+        expect(reverse).toMatchObject({ fromUserId: "bob", toUserId: "me", amount: 20000 });
+    });
+
+    it("keeps currencies apart and skips settled groups", () => {
+        const trip = { groupId: "bali", groupName: "Bali", currency: "IDR", amount: 1000 };
+        const done = { groupId: "old", groupName: "Old", currency: "INR", amount: 0 };
+        const transfers = netPairLegs("me", "bob", [goa, trip, done]);
+        expect(transfers.map((t) => [t.currency, t.amount, t.legs.length])).toEqual([["INR", 50000, 1], ["IDR", 1000, 1]]);
+    });
+});
+
+describe("legSettlements", () => {
+    it("records each group's full leg so every group reconciles", () => {
+        const [transfer] = netPairLegs("me", "bob", [goa, flat]);
+        expect(legSettlements("me", "bob", transfer)).toEqual([
+            { groupId: "goa", fromUserId: "me", toUserId: "bob", amount: 50000 },
+            { groupId: "flat", fromUserId: "bob", toUserId: "me", amount: 30000 },
+        ]);
+    });
+});
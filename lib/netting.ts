@@ -0,0 +1,64 @@
+/**
+ * What one user owes another directly in one group, in minor units of the
+ * group's base currency. Positive means `userId` owes `otherUserId`.
+ */
+export interface PairLeg {
+    groupId: string;
+    groupName: string;
+    currency: string;
+    amount: number;
+}
+
+/** The single payment that settles every leg in one currency. */
+export interface NetTransfer {
+    currency: string;
+    fromUserId: string;
+    toUserId: string;
+    /** Zero when the legs cancel out exactly; recording still clears them. */
+    amount: number;
+    legs: PairLeg[];
+}
+
+export interface LegSettlement {
+    groupId: string;
+    fromUserId: string;
+    toUserId: string;
+    amount: number;
+}
+
+/**
+ * Nets the legs between `userId` and `otherUserId` into one transfer per
+ * currency. Groups in different currencies can't be netted against each other.
+ */
+export function netPairLegs(userId: string, otherUserId: string, legs: PairLeg[]): NetTransfer[] {
+    const byCurrency = new Map<string, PairLeg[]>();
+    for (const leg of legs) {
+        if (leg.amount === 0) continue;
+        byCurrency.set(leg.currency, [...(byCurrency.get(leg.currency) ?? []), leg]);
+    }
+
+    return [...byCurrency].map(([currency, currencyLegs]) => {
+        const net = currencyLegs.reduce((sum, leg) => sum + leg.amount, 0);
+        return {
+            currency,
+            fromUserId: net >= 0 ? userId : otherUserId,
+            toUserId: net >= 0 ? otherUserId : userId,
+            amount: Math.abs(net),
+            legs: currencyLegs,
+        };
+    });
+}
+
+/**
+ * The settlement each group records for its leg of a net payment: whoever owes
+ * in that group pays the full leg, so every group reconciles on its own even
+ * though only the net amount changes hands.
+ */
+export function legSettlements(userId: string, otherUserId: string, transfer: NetTransfer): LegSettlement[] {
+    return transfer.legs.map((leg) => ({
+        groupId: leg.groupId,
+        fromUserId: leg.amount > 0 ? userId : otherUserId,
+        toUserId: leg.amount > 0 ? otherUserId : userId,
+        amount: Math.abs(leg.amount),
+    }));
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { formatBits, qrMatrix, qrSvg, reedSolomon, versionBits } from "@/lib/qr";
+
+describe("reedSolomon", () => {
+    it("matches the worked HELLO WORLD 1-M example", () => {
+        const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+        expect(reedSolomon(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+    });
+});
+
+describe("format and version bits", () => {
+    it("matches the standard tables", () => {
+        expect(formatBits(0)).toBe(0b101010000010010);
+        expect(formatBits(5)).toBe(0b100000011001110);
+        expect(formatBits(7)).toBe(0b100101010100000);
+        expect(versionBits(7)).toBe(0b000111110010010100);
+    });
+});
+
+describe("qrMatrix", () => {
+    const finderAt = (modules: boolean[][], x: number, y: number) =>
+        [0, 1, 2, 3, 4, 5, 6].map((d) => [modules[y][x + d], modules[y + d][x], modules[y + 3][x + 3]]).flat().every(Boolean);
+
+    it("picks the smallest version that fits and draws the finders", () => {
+        const small = qrMatrix("upi://pay");
+        expect(small).toHaveLength(21);
+        expect(finderAt(small, 0, 0) && finderAt(small, 14, 0) && finderAt(small, 0, 14)).toBe(true);
+
+        const link = qrMatrix(`upi://pay?pa=someone@okbank&pn=Someone&am=1234.50&cu=INR&tn=${"x".repeat(60)}`);
+        expect(link).toHaveLength(45);
+    });
+
+    it("stores the chosen mask in the format area", () => {
+        const modules = qrMatrix("upi://pay?pa=someone@okbank");
+        const read = [0, 1, 2, 3, 4, 5, 7, 8].map((y) => modules[y][8]);
+        const masks = [0, 1, 2, 3, 4, 5, 6, 7].filter((mask) => {
+            const bits = formatBits(mask);
+            return [0, 1, 2, 3, 4, 5, 6, 7].every((i) => read[i] === (((bits >>> i) & 1) === 1));
+        });
+        expect(masks).toHaveLength(1);
+    });
+
+    it("refuses text that doesn't fit", () => {
+        expect(() => qrMatrix("x".repeat(214))).toThrow();
+    });
+});
+
+describe("qrSvg", () => {
+    it("adds a quiet zone around the modules", () => {
+        expect(qrSvg("hi")).toContain('viewBox="0 0 29 29"');
+    });
+});
@@ -0,0 +1,299 @@
+/**
+ * A small QR code encoder so payment codes are drawn on our own server rather
+ * than by a third-party service. It only does what payment links need: byte
+ * mode, error correction level M, versions 1 to 10 (up to 213 bytes), with the
+ * mask picked by the standard penalty rules.
+ */
+
+export const MAX_QR_VERSION = 10;
+
+/** Error correction codewords per block and number of blocks for level M, by version. */
+const ECC_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const ECC_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+/** Level M's two format bits. */
+const ECC_LEVEL_M = 0;
+
+const bit = (value: number, i: number) => ((value >>> i) & 1) !== 0;
+
+/** Bits left for codewords once the function patterns are drawn. */
+function rawDataModules(version: number): number {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const alignments = Math.floor(version / 7) + 2;
+        result -= (25 * alignments - 10) * alignments - 55;
+        if (version >= 7) result -= 36;
+    }
+    return result;
+}
+
+const dataCodewords = (version: number) =>
+    Math.floor(rawDataModules(version) / 8) - ECC_PER_BLOCK[version] * ECC_BLOCKS[version];
+
+/** Multiplies in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1. */
+function gfMultiply(x: number, y: number): number {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+}
+
+/** The Reed-Solomon error correction codewords for `data`. */
+export function reedSolomon(data: number[], degree: number): number[] {
+    const divisor = new Array<number>(degree).fill(0);
+    divisor[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < degree; j++) {
+            divisor[j] = gfMultiply(divisor[j], root);
+            if (j + 1 < degree) divisor[j] ^= divisor[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+
+    const remainder = new Array<number>(degree).fill(0);
+    for (const b of data) {
+        const factor = b ^ remainder.shift()!;
+        remainder.push(0);
+        divisor.forEach((coefficient, i) => (remainder[i] ^= gfMultiply(coefficient, factor)));
+    }
+    return remainder;
+}
+
+/** The 15 format bits for level M and `mask`, BCH-protected and XOR-masked. */
+export function formatBits(mask: number): number {
+    const data = (ECC_LEVEL_M << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    return ((data << 10) | remainder) ^ 0x5412;
+}
+
+/** The 18 version bits drawn from version 7 up. */
+export function versionBits(version: number): number {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    return (version << 12) | remainder;
+}
+
+function alignmentPositions(version: number): number[] {
+    if (version === 1) return [];
+    const count = Math.floor(version / 7) + 2;
+    const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+    const positions = [6];
+    for (let pos = version * 4 + 10; positions.length < count; pos -= step) positions.splice(1, 0, pos);
+    return positions;
+}
+
+/** Byte-mode segment, terminator and padding, split into blocks with their ECC and interleaved. */
+function codewords(bytes: number[], version: number): number[] {
+    const capacity = dataCodewords(version) * 8;
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    append(0b0100, 4);
+    append(bytes.length, version < 10 ? 8 : 16);
+    bytes.forEach((b) => append(b, 8));
+    append(0, Math.min(4, capacity - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+    const data: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+
+    const blockCount = ECC_BLOCKS[version];
+    const eccLength = ECC_PER_BLOCK[version];
+    const rawCodewords = Math.floor(rawDataModules(version) / 8);
+    const shortBlocks = blockCount - (rawCodewords % blockCount);
+    const shortLength = Math.floor(rawCodewords / blockCount);
+
+    const blocks: number[][] = [];
+    for (let i = 0, k = 0; i < blockCount; i++) {
+        const block = data.slice(k, k + shortLength - eccLength + (i < shortBlocks ? 0 : 1));
+        k += block.length;
+        const ecc = reedSolomon(block, eccLength);
+        // Short blocks get a placeholder so every block lines up when interleaving
+        if (i < shortBlocks) block.push(0);
+        blocks.push([...block, ...ecc]);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            if (i !== shortLength - eccLength || j >= shortBlocks) result.push(block[i]);
+        });
+    }
+    return result;
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+    (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const FINDER_LIKE = [[1, 0, 1, 1, 1, 0, 1, 0, 0, 0, 0], [0, 0, 0, 0, 1, 0, 1, 1, 1, 0, 1]];
+
+/** The standard penalty score; the mask with the lowest one is used. */
+function penalty(modules: boolean[][]): number {
+    const size = modules.length;
+    const lines = [
+        ...modules,
+        ...modules.map((_, x) => modules.map((row) => row[x])),
+    ];
+    let score = 0;
+
+    for (const line of lines) {
+        // Runs of five or more modules of the same colour
+        let run = 1;
+        for (let i = 1; i <= size; i++) {
+            if (i < size && line[i] === line[i - 1]) {
+                run++;
+                continue;
+            }
+            if (run >= 5) score += run - 2;
+            run = 1;
+        }
+        // Patterns that look like a finder
+        for (let i = 0; i + 11 <= size; i++) {
+            if (FINDER_LIKE.some((pattern) => pattern.every((dark, k) => line[i + k] === (dark === 1)))) score += 40;
+        }
+    }
+
+    for (let y = 0; y < size - 1; y++) {
+        for (let x = 0; x < size - 1; x++) {
+            const colour = modules[y][x];
+            if (colour === modules[y][x + 1] && colour === modules[y + 1][x] && colour === modules[y + 1][x + 1]) score += 3;
+        }
+    }
+
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    score += Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size)) * 10;
+    return score;
+}
+
+/**
+ * The QR code for `text` as rows of modules, true for dark. Throws when the
+ * text (UTF-8 encoded) is longer than version 10 holds.
+ */
+export function qrMatrix(text: string): boolean[][] {
+    const bytes = [...new TextEncoder().encode(text)];
+    let version = 1;
+    while (version <= MAX_QR_VERSION && 4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8) version++;
+    if (version > MAX_QR_VERSION) throw new Error("Text is too long for a QR code");
+
+    const size = version * 4 + 17;
+    const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const setFunction = (x: number, y: number, dark: boolean) => {
+        modules[y][x] = dark;
+        isFunction[y][x] = true;
+    };
+
+    for (let i = 0; i < size; i++) {
+        setFunction(6, i, i % 2 === 0);
+        setFunction(i, 6, i % 2 === 0);
+    }
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                const x = cx + dx;
+                const y = cy + dy;
+                if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4);
+            }
+        }
+    }
+    const alignments = alignmentPositions(version);
+    const last = alignments.length - 1;
+    alignments.forEach((cx, i) => alignments.forEach((cy, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+    }));
+
+    const drawFormat = (mask: number) => {
+        const bits = formatBits(mask);
+        for (let i = 0; i <= 5; i++) setFunction(8, i, bit(bits, i));
+        setFunction(8, 7, bit(bits, 6));
+        setFunction(8, 8, bit(bits, 7));
+        setFunction(7, 8, bit(bits, 8));
+        for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(bits, i));
+        for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(bits, i));
+        for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(bits, i));
+        setFunction(8, size - 8, true);
+    };
+    // Reserve the format areas before placing data; the real bits come with the mask
+    drawFormat(0);
+    if (version >= 7) {
+        const bits = versionBits(version);
+        for (let i = 0; i < 18; i++) {
+            const a = size - 11 + (i % 3);
+            const b = Math.floor(i / 3);
+            setFunction(a, b, bit(bits, i));
+            setFunction(b, a, bit(bits, i));
+        }
+    }
+
+    // Codewords zigzag up and down two-module columns from the bottom right, skipping the timing column
+    const data = codewords(bytes, version);
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5;
+        for (let vertical = 0; vertical < size; vertical++) {
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                const upward = ((right + 1) & 2) === 0;
+                const y = upward ? size - 1 - vertical : vertical;
+                if (!isFunction[y][x] && i < data.length * 8) {
+                    modules[y][x] = bit(data[i >>> 3], 7 - (i & 7));
+                    i++;
+                }
+            }
+        }
+    }
+
+    const applyMask = (mask: number) => {
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+            }
+        }
+    };
+
+    let best = 0;
+    let bestScore = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+        applyMask(mask);
+        drawFormat(mask);
+        const score = penalty(modules);
+        if (score < bestScore) {
+            best = mask;
+            bestScore = score;
+        }
+        // Masking twice undoes it
+        applyMask(mask);
+    }
+    applyMask(best);
+    drawFormat(best);
+    return modules;
+}
+
+/** The QR code for `text` as a standalone SVG, with the standard four-module quiet zone. */
+export function qrSvg(text: string): string {
+    const modules = qrMatrix(text);
+    const size = modules.length + 8;
+    const path = modules
+        .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + 4},${y + 4}h1v1h-1z` : "")))
+        .join("");
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`
+        + `<rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+}
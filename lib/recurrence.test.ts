@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { dueOccurrences, firstOccurrence, nextOccurrence, parseSchedule, upcomingOccurrence } from "@/lib/recurrence";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+describe("parseSchedule", () => {
+    it("requires a valid day for monthly schedules", () => {
+        expect(parseSchedule({ frequency: "MONTHLY", dayOfMonth: 5 })).toEqual({ schedule: { frequency: "MONTHLY", dayOfMonth: 5 } });
+        expect(parseSchedule({ frequency: "MONTHLY", dayOfMonth: 32 })).toEqual({ error: "dayOfMonth must be a whole number from 1 to 31" });
+    });
+
+    it("rejects unknown frequencies", () => {
+        expect(parseSchedule({ frequency: "YEARLY" })).toEqual({ error: "frequency must be MONTHLY, WEEKLY or CUSTOM" });
+    });
+});
+
+describe("monthly schedules", () => {
+    const rent = { frequency: "MONTHLY" as const, dayOfMonth: 31 };
+
+    it("starts this month if the day is still ahead, otherwise next month", () => {
+        expect(firstOccurrence({ frequency: "MONTHLY", dayOfMonth: 5 }, day("2026-03-02"))).toEqual(day("2026-03-05"));
+        expect(firstOccurrence({ frequency: "MONTHLY", dayOfMonth: 5 }, day("2026-03-06"))).toEqual(day("2026-04-05"));
+    });
+
+    it("uses the last day of shorter months without drifting", () => {
+        expect(nextOccurrence(rent, day("2026-01-31"))).toEqual(day("2026-02-28"));
+        expect(nextOccurrence(rent, day("2026-02-28"))).toEqual(day("2026-03-31"));
+    });
+});
+
+describe("dueOccurrences", () => {
+    it("catches up every missed occurrence and returns the next one", () => {
+        const weekly = { frequency: "WEEKLY" as const };
+
+        expect(dueOccurrences(weekly, day("2026-03-01"), day("2026-03-16"))).toEqual({
+            dates: [day("2026-03-01"), day("2026-03-08"), day("2026-03-15")],
+            nextRunAt: day("2026-03-22"),
+        });
+    });
+
+    it("returns nothing before the next run", () => {
+        const custom = { frequency: "CUSTOM" as const, intervalDays: 10 };
+
+        expect(dueOccurrences(custom, day("2026-03-10"), day("2026-03-09")).dates).toEqual([]);
+    });
+});
+
+describe("upcomingOccurrence", () => {
+    it("skips occurrences that fell while paused", () => {
+        const schedule = { frequency: "MONTHLY" as const, dayOfMonth: 1 };
+
+        expect(upcomingOccurrence(schedule, day("2026-01-01"), day("2026-04-15"))).toEqual(day("2026-05-01"));
+    });
+});
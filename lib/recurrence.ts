@@ -0,0 +1,100 @@
+export type RecurrenceFrequency = "MONTHLY" | "WEEKLY" | "CUSTOM";
+
+export interface RecurrenceSchedule {
+    frequency: RecurrenceFrequency;
+    /** 1–31; months without that day use their last day. */
+    dayOfMonth?: number | null;
+    intervalDays?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Upper bound on occurrences caught up in one run, so a bad schedule can't flood a group. */
+export const MAX_CATCH_UP = 60;
+
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+function monthlyOn(year: number, month: number, day: number): Date {
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month, Math.min(day, daysInMonth)));
+}
+
+/**
+ * Reads a schedule from a request body. Returns an error message if the
+ * frequency or its parameters are unusable.
+ */
+export function parseSchedule(body: Record<string, unknown>): { schedule: RecurrenceSchedule } | { error: string } {
+    const { frequency } = body;
+
+    if (frequency === "MONTHLY") {
+        const dayOfMonth = Number(body.dayOfMonth);
+        if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+            return { error: "dayOfMonth must be a whole number from 1 to 31" };
+        }
+        return { schedule: { frequency, dayOfMonth } };
+    }
+    if (frequency === "WEEKLY") {
+        return { schedule: { frequency } };
+    }
+    if (frequency === "CUSTOM") {
+        const intervalDays = Number(body.intervalDays);
+        if (!Number.isInteger(intervalDays) || intervalDays < 1) {
+            return { error: "intervalDays must be a whole number of at least 1" };
+        }
+        return { schedule: { frequency, intervalDays } };
+    }
+    return { error: "frequency must be MONTHLY, WEEKLY or CUSTOM" };
+}
+
+/** The first occurrence on or after `from` (dates are whole UTC days). */
+export function firstOccurrence(schedule: RecurrenceSchedule, from: Date): Date {
+    const day = startOfDay(from);
+    if (schedule.frequency !== "MONTHLY") return day;
+
+    const dayOfMonth = schedule.dayOfMonth ?? 1;
+    const thisMonth = monthlyOn(day.getUTCFullYear(), day.getUTCMonth(), dayOfMonth);
+    return thisMonth.getTime() >= day.getTime()
+        ? thisMonth
+        : monthlyOn(day.getUTCFullYear(), day.getUTCMonth() + 1, dayOfMonth);
+}
+
+/** The occurrence that follows `occurrence`. */
+export function nextOccurrence(schedule: RecurrenceSchedule, occurrence: Date): Date {
+    if (schedule.frequency === "MONTHLY") {
+        return monthlyOn(occurrence.getUTCFullYear(), occurrence.getUTCMonth() + 1, schedule.dayOfMonth ?? 1);
+    }
+    const days = schedule.frequency === "WEEKLY" ? 7 : Math.max(1, schedule.intervalDays ?? 1);
+    return new Date(occurrence.getTime() + days * DAY_MS);
+}
+
+/**
+ * Every occurrence from `nextRunAt` up to and including `now`, plus the
+ * occurrence to wait for afterwards. Missed runs are caught up, at most
+ * MAX_CATCH_UP at a time.
+ */
+export function dueOccurrences(schedule: RecurrenceSchedule, nextRunAt: Date, now: Date) {
+    const dates: Date[] = [];
+    let next = nextRunAt;
+    while (next.getTime() <= now.getTime() && dates.length < MAX_CATCH_UP) {
+        dates.push(next);
+        next = nextOccurrence(schedule, next);
+    }
+    return { dates, nextRunAt: next };
+}
+
+/** The first occurrence that isn't in the past, used when a paused schedule resumes. */
+export function upcomingOccurrence(schedule: RecurrenceSchedule, nextRunAt: Date, now: Date): Date {
+    const today = startOfDay(now);
+    let next = nextRunAt;
+    while (next.getTime() < today.getTime()) {
+        next = nextOccurrence(schedule, next);
+    }
+    return next;
+}
+
+/** e.g. "Monthly on day 5", "Weekly", "Every 10 days". */
+export function describeSchedule(schedule: RecurrenceSchedule): string {
+    if (schedule.frequency === "MONTHLY") return `Monthly on day ${schedule.dayOfMonth}`;
+    if (schedule.frequency === "WEEKLY") return "Weekly";
+    return schedule.intervalDays === 1 ? "Every day" : `Every ${schedule.intervalDays} days`;
+}
@@ -0,0 +1,97 @@
+import { prisma } from "@/lib/prisma";
+import { formatMoney } from "@/lib/money";
+import { computeSplits, SplitInput } from "@/lib/splits";
+import { validateExpense } from "@/lib/expenses";
+import { dueOccurrences } from "@/lib/recurrence";
+import { loadCurrencyConverter } from "@/lib/exchangeRates";
+
+export interface RecurringRunResult {
+    recurringExpenseId: string;
+    description: string;
+    created: number;
+    error?: string;
+}
+
+/**
+ * Creates the Expense rows for every active recurring expense that has come due,
+ * back-dated to the day each occurrence fell on, and logs them as EXPENSE_ADDED.
+ * A definition that no longer fits its group (e.g. the payer left) is skipped and
+ * stays due, so it is picked up again once fixed. Definitions another run got
+ * to first are left out of the results.
+ */
+export async function runDueRecurringExpenses(now: Date = new Date()): Promise<RecurringRunResult[]> {
+    const due = await prisma.recurringExpense.findMany({
+        where: { paused: false, nextRunAt: { lte: now }, group: { archivedAt: null } },
+        include: { paidBy: true, group: true },
+        orderBy: { nextRunAt: "asc" },
+    });
+
+    const results: RecurringRunResult[] = [];
+
+    for (const recurring of due) {
+        const members = await prisma.groupMember.findMany({ where: { groupId: recurring.groupId, leftAt: null } });
+        const memberIds = members.map((m) => m.userId);
+        const splits = (Array.isArray(recurring.splits) ? recurring.splits : []) as unknown as SplitInput[];
+
+        const fieldErrors = validateExpense({ ...recurring, memberIds, splits });
+        const { canConvert, rateOn } = await loadCurrencyConverter(recurring.groupId);
+        if (!canConvert(recurring.currency, recurring.group.baseCurrency)) {
+            fieldErrors.currency = `No exchange rate from ${recurring.currency} to ${recurring.group.baseCurrency}`;
+        }
+        if (Object.keys(fieldErrors).length > 0) {
+            results.push({
+                recurringExpenseId: recurring.id,
+                description: recurring.description,
+                created: 0,
+                error: Object.values(fieldErrors).join(" "),
+            });
+            continue;
+        }
+
+        const { dates, nextRunAt } = dueOccurrences(recurring, recurring.nextRunAt, now);
+        const computedSplits = computeSplits({ splitType: recurring.splitType, amount: recurring.amount, memberIds, splits });
+
+        const claimed = await prisma.$transaction(async (tx) => {
+            // Move the schedule on first, only if no overlapping run already has,
+            // so each occurrence is created once however many runs race
+            const { count } = await tx.recurringExpense.updateMany({
+                where: { id: recurring.id, nextRunAt: recurring.nextRunAt },
+                data: { nextRunAt, lastRunAt: dates[dates.length - 1] },
+            });
+            if (count === 0) return false;
+
+            for (const date of dates) {
+                await tx.expense.create({
+                    data: {
+                        description: recurring.description,
+                        category: recurring.category,
+                        amount: recurring.amount,
+                        currency: recurring.currency,
+                        exchangeRate: rateOn(recurring.currency, recurring.group.baseCurrency, date),
+                        paidById: recurring.paidById,
+                        groupId: recurring.groupId,
+                        splitType: recurring.splitType,
+                        recurringExpenseId: recurring.id,
+                        createdAt: date,
+                        payers: { create: [{ userId: recurring.paidById, amount: recurring.amount }] },
+                        splits: { create: computedSplits },
+                    },
+                });
+
+                await tx.activityLog.create({
+                    data: {
+                        groupId: recurring.groupId,
+                        type: "EXPENSE_ADDED",
+                        message: `${recurring.paidBy.name} added expense ${formatMoney(recurring.amount, recurring.currency)} for ${recurring.description} (recurring)`,
+                    },
+                });
+            }
+            return true;
+        });
+        if (!claimed) continue;
+
+        results.push({ recurringExpenseId: recurring.id, description: recurring.description, created: dates.length });
+    }
+
+    return results;
+}
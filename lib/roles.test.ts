@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { can, canChangeRole, canEditExpense, canRemoveMember, canVoidSettlement, permissionsFor } from "@/lib/roles";
+
+describe("can", () => {
+    it("keeps deleting the group to the owner and viewers read-only", () => {
+        expect(can("OWNER", "deleteGroup")).toBe(true);
+        expect(can("ADMIN", "deleteGroup")).toBe(false);
+        expect(can("ADMIN", "renameGroup")).toBe(true);
+        expect(can("MEMBER", "manageMembers")).toBe(false);
+        expect(Object.values(permissionsFor("VIEWER")).some(Boolean)).toBe(false);
+    });
+
+    it("leaves only settings and deletion open in archived groups", () => {
+        expect(can("OWNER", "addExpenses", true)).toBe(false);
+        expect(can("ADMIN", "renameGroup", true)).toBe(true);
+        expect(permissionsFor("OWNER", true)).toMatchObject({ deleteGroup: true, manageMembers: false });
+    });
+});
+
+describe("canVoidSettlement", () => {
+    const settlement = { fromUserId: "ben", toUserId: "asha" };
+
+    it("keeps voiding to the two people involved and admins", () => {
+        expect(canVoidSettlement("MEMBER", "asha", settlement)).toBe(true);
+        expect(canVoidSettlement("MEMBER", "chitra", settlement)).toBe(false);
+        expect(canVoidSettlement("ADMIN", "chitra", settlement)).toBe(true);
+        expect(canVoidSettlement("VIEWER", "ben", settlement)).toBe(false);
+    });
+});
+
+describe("canEditExpense", () => {
+    const expense = { paidById: "asha", payers: [{ userId: "asha" }, { userId: "ben" }] };
+
+    it("lets members edit only expenses they paid towards", () => {
+        expect(canEditExpense("MEMBER", "ben", expense)).toBe(true);
+        expect(canEditExpense("MEMBER", "chitra", expense)).toBe(false);
+        expect(canEditExpense("ADMIN", "chitra", expense)).toBe(true);
+    });
+
+    it("never lets viewers edit, even their own expenses", () => {
+        expect(canEditExpense("VIEWER", "asha", expense)).toBe(false);
+    });
+});
+
+describe("canChangeRole", () => {
+    it("leaves ownership alone and admins to the owner", () => {
+        expect(canChangeRole("OWNER", "MEMBER", "ADMIN")).toBe(true);
+        expect(canChangeRole("ADMIN", "MEMBER", "VIEWER")).toBe(true);
+        expect(canChangeRole("ADMIN", "MEMBER", "ADMIN")).toBe(false);
+        expect(canChangeRole("ADMIN", "ADMIN", "MEMBER")).toBe(false);
+        expect(canChangeRole("OWNER", "OWNER", "ADMIN")).toBe(false);
+        expect(canChangeRole("OWNER", "ADMIN", "OWNER")).toBe(false);
+        expect(canChangeRole("MEMBER", "VIEWER", "MEMBER")).toBe(false);
+    });
+});
+
+describe("canRemoveMember", () => {
+    it("never removes the owner and leaves admins to the owner", () => {
+        expect(canRemoveMember("OWNER", "ADMIN")).toBe(true);
+        expect(canRemoveMember("ADMIN", "MEMBER")).toBe(true);
+        expect(canRemoveMember("ADMIN", "ADMIN")).toBe(false);
+        expect(canRemoveMember("ADMIN", "OWNER")).toBe(false);
+        expect(canRemoveMember("MEMBER", "VIEWER")).toBe(false);
+    });
+});
@@ -0,0 +1,83 @@
+/** Mirrors the GroupRole enum in prisma/schema.prisma, highest first. */
+export const GROUP_ROLES = ["OWNER", "ADMIN", "MEMBER", "VIEWER"] as const;
+
+export type GroupRole = (typeof GROUP_ROLES)[number];
+
+export type GroupAction =
+    | "deleteGroup"
+    | "renameGroup"
+    | "manageMembers"
+    | "editAnyExpense"
+    | "addExpenses"
+    | "recordSettlements";
+
+const ALLOWED: Record<GroupAction, readonly GroupRole[]> = {
+    deleteGroup: ["OWNER"],
+    renameGroup: ["OWNER", "ADMIN"],
+    manageMembers: ["OWNER", "ADMIN"],
+    editAnyExpense: ["OWNER", "ADMIN"],
+    addExpenses: ["OWNER", "ADMIN", "MEMBER"],
+    recordSettlements: ["OWNER", "ADMIN", "MEMBER"],
+};
+
+/** Archived groups are read-only: only their settings (to unarchive) and deletion stay open. */
+const ARCHIVED_ALLOWED: readonly GroupAction[] = ["deleteGroup", "renameGroup"];
+
+export const isGroupRole = (value: unknown): value is GroupRole =>
+    typeof value === "string" && (GROUP_ROLES as readonly string[]).includes(value);
+
+export function can(role: GroupRole, action: GroupAction, archived = false) {
+    return ALLOWED[action].includes(role) && (!archived || ARCHIVED_ALLOWED.includes(action));
+}
+
+/** Everything a role may do, for clients deciding which controls to show. */
+export function permissionsFor(role: GroupRole, archived = false): Record<GroupAction, boolean> {
+    const entries = (Object.keys(ALLOWED) as GroupAction[]).map((action) => [action, can(role, action, archived)]);
+    return Object.fromEntries(entries) as Record<GroupAction, boolean>;
+}
+
+/**
+ * Admins and owners may edit any expense; members only the ones they paid
+ * towards. Recurring expenses follow the same rule through their payer.
+ */
+export function canEditExpense(
+    role: GroupRole,
+    userId: string,
+    expense: { paidById: string; payers?: { userId: string }[] }
+) {
+    if (can(role, "editAnyExpense")) return true;
+    if (!can(role, "addExpenses")) return false;
+    return expense.paidById === userId || (expense.payers ?? []).some((p) => p.userId === userId);
+}
+
+/** Admins and owners may void any payment; members only ones they made or received. */
+export function canVoidSettlement(
+    role: GroupRole,
+    userId: string,
+    settlement: { fromUserId: string; toUserId: string }
+) {
+    if (can(role, "manageMembers")) return true;
+    if (!can(role, "recordSettlements")) return false;
+    return settlement.fromUserId === userId || settlement.toUserId === userId;
+}
+
+/**
+ * Whether `actor` may move a member from `current` to `next`. Ownership can't
+ * be handed out or taken away here, and only the owner can change admins.
+ */
+export function canChangeRole(actor: GroupRole, current: GroupRole, next: GroupRole) {
+    if (!can(actor, "manageMembers")) return false;
+    if (current === "OWNER" || next === "OWNER") return false;
+    if (actor !== "OWNER" && (current === "ADMIN" || next === "ADMIN")) return false;
+    return true;
+}
+
+/**
+ * Whether `actor` may remove someone with the `target` role. The owner can't be
+ * removed, and only the owner can remove admins. Leaving is always allowed,
+ * except for the owner.
+ */
+export function canRemoveMember(actor: GroupRole, target: GroupRole) {
+    if (!can(actor, "manageMembers") || target === "OWNER") return false;
+    return actor === "OWNER" || target !== "ADMIN";
+}
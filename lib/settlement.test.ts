@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+    calculateSettlements,
+    capTransfers,
+    EXACT_SETTLEMENT_OPTIONS,
+    EXACT_SOLVER_LIMIT,
+    planAdjustedSettlements,
+    planSettlements,
+} from "@/lib/settlement";
+
+const people = (...balances: number[]) =>
+    balances.map((balance, i) => ({ userId: `u${i}`, name: `U${i}`, balance }));
+
+describe("planSettlements", () => {
+    it("finds fewer transfers than greedy when zero-sum groups exist", () => {
+        // 2 + 5 = 7 and 6 + 3 = 9 settle on their own; greedy pairs the largest amounts and misses it
+        const balances = people(2, 5, 6, -7, 3, -9);
+        expect(calculateSettlements(balances)).toHaveLength(5);
+
+        const plan = planSettlements(balances);
+        expect(plan.algorithm).toBe("exact");
+        expect(plan.transactions).toHaveLength(4);
+    });
+
+    it("keeps every balance settled", () => {
+        const plan = planSettlements(people(3, 2, -2, -3, 7, -4, -3));
+        const net: Record<string, number> = {};
+        for (const t of plan.transactions) {
+            net[t.fromId] = (net[t.fromId] ?? 0) + t.amount;
+            net[t.toId] = (net[t.toId] ?? 0) - t.amount;
+        }
+        expect(net).toEqual({ u0: -3, u1: -2, u2: 2, u3: 3, u4: -7, u5: 4, u6: 3 });
+    });
+
+    it("uses greedy when asked, or when there are too many people", () => {
+        expect(planSettlements(people(1, -1), "greedy").algorithm).toBe("greedy");
+        const crowd = people(...Array.from({ length: EXACT_SOLVER_LIMIT + 1 }, (_, i) => (i % 2 ? -1 : 1)), 1);
+        expect(planSettlements(crowd).algorithm).toBe("greedy");
+    });
+});
+
+describe("planAdjustedSettlements", () => {
+    const amounts = (plan: { transactions: { fromId: string; toId: string; amount: number }[] }) =>
+        plan.transactions.map((t) => [t.fromId, t.toId, t.amount]);
+
+    it("rounds transfers and reports what rounding left over", () => {
+        const plan = planAdjustedSettlements(people(100.37, -50.2, -50.17), { ...EXACT_SETTLEMENT_OPTIONS, roundTo: 100 });
+        expect(amounts(plan)).toEqual([["u1", "u0", 50], ["u2", "u0", 50]]);
+        expect(plan.residue.map((r) => [r.userId, r.amount])).toEqual([["u0", 0.37], ["u1", -0.2], ["u2", -0.17]]);
+    });
+
+    it("drops transfers under the minimum into the residue", () => {
+        const plan = planAdjustedSettlements(people(30, -29.5, -0.5), { ...EXACT_SETTLEMENT_OPTIONS, minTransfer: 100 });
+        expect(amounts(plan)).toEqual([["u1", "u0", 29.5]]);
+        expect(plan.residue.map((r) => [r.userId, r.amount])).toEqual([["u0", 0.5], ["u2", -0.5]]);
+    });
+
+    it("never plans a transfer under the minimum, even between balances above it", () => {
+        const plan = planAdjustedSettlements(people(50.2, 50.2, -50.3, -50.1), { ...EXACT_SETTLEMENT_OPTIONS, minTransfer: 100 });
+        expect(plan.transactions.length).toBeGreaterThan(0);
+        expect(plan.transactions.every((t) => t.amount >= 1)).toBe(true);
+        expect(plan.residue.reduce((sum, r) => sum + Math.round(r.amount * 100), 0)).toBe(0);
+        expect(plan.residue.every((r) => Math.abs(r.amount) < 1)).toBe(true);
+    });
+
+    it("has no residue with the default options", () => {
+        expect(planAdjustedSettlements(people(3, 2, -2, -3), EXACT_SETTLEMENT_OPTIONS).residue).toEqual([]);
+    });
+});
+
+describe("capTransfers", () => {
+    it("forwards payments so nobody makes more than the cap", () => {
+        const capped = capTransfers(calculateSettlements(people(-6, 1, 2, 3)), 1);
+        expect(capped.map((t) => [t.fromId, t.toId, t.amount])).toEqual([["u0", "u3", 6], ["u3", "u2", 3], ["u2", "u1", 1]]);
+    });
+
+    it("leaves plans under the cap alone", () => {
+        const plan = calculateSettlements(people(-6, 1, 2, 3));
+        expect(capTransfers(plan, 3)).toEqual(plan);
+    });
+});
@@ -13,9 +13,10 @@ export interface SettlementTransaction {
 }
 
 /**
- * Calculates the minimum number of transactions required to settle debts.
+ * Calculates the transactions required to settle debts.
  * Employs a greedy algorithm: sorts creditors and debtors by magnitude,
  * and repeatedly settles the largest possible amount between them.
+ * This is usually, but not always, the fewest transfers; see planSettlements.
  * Converts to integers internally to avoid floating-point precision errors.
  */
 export function calculateSettlements(balances: BalanceEntity[]): SettlementTransaction[] {
@@ -62,3 +63,197 @@ export function calculateSettlements(balances: BalanceEntity[]): SettlementTrans
 
     return settlements;
 }
+
+export const SETTLEMENT_ALGORITHMS = ["exact", "greedy"] as const;
+
+export type SettlementAlgorithm = (typeof SETTLEMENT_ALGORITHMS)[number];
+
+/**
+ * The exact solver looks at every subset of the people who aren't settled,
+ * so it only runs up to this many of them; past it the greedy plan is used.
+ */
+export const EXACT_SOLVER_LIMIT = 16;
+
+export interface SettlementPlan {
+    /** The algorithm that actually ran, which is greedy when exact was over the limit. */
+    algorithm: SettlementAlgorithm;
+    transactions: SettlementTransaction[];
+}
+
+export const isSettlementAlgorithm = (value: unknown): value is SettlementAlgorithm =>
+    typeof value === "string" && (SETTLEMENT_ALGORITHMS as readonly string[]).includes(value);
+
+/**
+ * Splits the people who aren't settled into as many zero-sum groups as
+ * possible. A group of k people always settles in k - 1 transfers, so the most
+ * groups gives the fewest transfers overall: n minus the number of groups.
+ * `best[mask]` is the most zero-sum groups the people in `mask` can be cut into
+ * when they are peeled off one at a time; every time the remaining set sums to
+ * zero, a group closes.
+ */
+function zeroSumGroups(balances: number[]): number[][] {
+    const n = balances.length;
+    const full = (1 << n) - 1;
+    const sum = new Array<number>(1 << n).fill(0);
+    const best = new Array<number>(1 << n).fill(0);
+
+    for (let mask = 1; mask <= full; mask++) {
+        const low = mask & -mask;
+        sum[mask] = sum[mask ^ low] + balances[31 - Math.clz32(low)];
+        let most = 0;
+        for (let i = 0; i < n; i++) {
+            if (mask & (1 << i)) most = Math.max(most, best[mask ^ (1 << i)]);
+        }
+        best[mask] = most + (sum[mask] === 0 ? 1 : 0);
+    }
+
+    const groups: number[][] = [];
+    let group: number[] = [];
+    let mask = full;
+    while (mask) {
+        const closes = sum[mask] === 0 ? 1 : 0;
+        const i = [...Array(n).keys()].find((k) => (mask & (1 << k)) && best[mask ^ (1 << k)] + closes === best[mask])!;
+        group.push(i);
+        mask ^= 1 << i;
+        if (sum[mask] === 0) {
+            groups.push(group);
+            group = [];
+        }
+    }
+    // Balances that don't net to zero leave one open group; greedy settles what it can
+    if (group.length > 0) groups.push(group);
+    return groups;
+}
+
+/**
+ * The settlement plan with the fewest transfers. Exact splits everyone who
+ * isn't settled into the most zero-sum groups and settles each group greedily;
+ * above EXACT_SOLVER_LIMIT people it falls back to the plain greedy plan.
+ */
+export function planSettlements(balances: BalanceEntity[], algorithm: SettlementAlgorithm = "exact"): SettlementPlan {
+    const open = balances.filter((b) => Math.round(b.balance * 100) !== 0);
+    if (algorithm === "greedy" || open.length > EXACT_SOLVER_LIMIT) {
+        return { algorithm: "greedy", transactions: calculateSettlements(balances) };
+    }
+
+    const groups = zeroSumGroups(open.map((b) => Math.round(b.balance * 100)));
+    return {
+        algorithm: "exact",
+        transactions: groups.flatMap((group) => calculateSettlements(group.map((i) => open[i]))),
+    };
+}
+
+/**
+ * A group's tweaks to its suggested plan, in minor units. Whatever the plan no
+ * longer settles is reported as residue rather than disappearing.
+ */
+export interface SettlementOptions {
+    /** Round balances to a multiple of this (100 for ₹1, 1000 for ₹10); 0 keeps exact amounts. */
+    roundTo: number;
+    /** Planned transfers below this are dropped, leaving their amount as residue. */
+    minTransfer: number;
+    /** The most transfers anyone makes, or null for no cap. */
+    maxTransfersPerPerson: number | null;
+}
+
+export const EXACT_SETTLEMENT_OPTIONS: SettlementOptions = { roundTo: 0, minTransfer: 0, maxTransfersPerPerson: null };
+
+/** What the plan leaves unsettled for one person: positive is still owed to them, negative they still owe. */
+export interface SettlementResidue {
+    userId: string;
+    name: string;
+    amount: number;
+}
+
+export interface AdjustedSettlementPlan extends SettlementPlan {
+    residue: SettlementResidue[];
+}
+
+/**
+ * Rounds every balance to `roundTo` (halves away from zero). Whatever that
+ * shifts lands on the largest creditor, so the balances still add up to what
+ * they did before.
+ */
+export function adjustBalances(balances: BalanceEntity[], { roundTo }: SettlementOptions): BalanceEntity[] {
+    const minor = balances.map((b) => Math.round(b.balance * 100));
+    const adjusted = minor.map((m) => (roundTo > 0 ? Math.sign(m) * Math.round(Math.abs(m) / roundTo) * roundTo : m));
+
+    const shifted = minor.reduce((sum, m) => sum + m, 0) - adjusted.reduce((sum, a) => sum + a, 0);
+    const largest = minor.indexOf(Math.max(...minor));
+    if (shifted !== 0 && minor[largest] > 0) adjusted[largest] += shifted;
+
+    return balances.map((b, i) => ({ ...b, balance: adjusted[i] / 100 }));
+}
+
+/**
+ * Caps how many transfers each person makes. Someone over the cap pays their
+ * smallest debts through one of the people they pay, who forwards them on, so
+ * the number of transfers stays the same and everyone ends up where they were.
+ * Forwarders are picked by how much room they have left; when nobody has any,
+ * the transfers are left as they are.
+ */
+export function capTransfers(transactions: SettlementTransaction[], cap: number): SettlementTransaction[] {
+    const made = new Map<string, number>();
+    const result: SettlementTransaction[] = [];
+    const pay = (t: SettlementTransaction) => {
+        made.set(t.fromId, (made.get(t.fromId) ?? 0) + 1);
+        result.push(t);
+    };
+
+    const byPayer = new Map<string, SettlementTransaction[]>();
+    for (const t of transactions) byPayer.set(t.fromId, [...(byPayer.get(t.fromId) ?? []), t]);
+
+    for (const legs of byPayer.values()) {
+        let payer = { from: legs[0].from, fromId: legs[0].fromId };
+        let pending = [...legs].sort((a, b) => b.amount - a.amount);
+
+        while (pending.length > 0) {
+            const room = cap - (made.get(payer.fromId) ?? 0);
+            if (pending.length <= room || room <= 0) {
+                pending.forEach((t) => pay({ ...t, ...payer }));
+                break;
+            }
+
+            pending.slice(0, room - 1).forEach((t) => pay({ ...t, ...payer }));
+            const rest = pending.slice(room - 1);
+            const hop = rest.reduce((best, t) => ((made.get(t.toId) ?? 0) < (made.get(best.toId) ?? 0) ? t : best));
+            const total = rest.reduce((sum, t) => sum + Math.round(t.amount * 100), 0);
+            pay({ ...hop, ...payer, amount: total / 100 });
+
+            pending = rest.filter((t) => t !== hop);
+            payer = { from: hop.to, fromId: hop.toId };
+        }
+    }
+    return result;
+}
+
+/** Each person's balance minus what the plan settles for them, for those it doesn't fully settle. */
+export function settlementResidue(balances: BalanceEntity[], transactions: SettlementTransaction[]): SettlementResidue[] {
+    const left = new Map(balances.map((b) => [b.userId, Math.round(b.balance * 100)]));
+    for (const t of transactions) {
+        const amount = Math.round(t.amount * 100);
+        left.set(t.fromId, (left.get(t.fromId) ?? 0) + amount);
+        left.set(t.toId, (left.get(t.toId) ?? 0) - amount);
+    }
+    return balances
+        .filter((b) => left.get(b.userId) !== 0)
+        .map((b) => ({ userId: b.userId, name: b.name, amount: left.get(b.userId)! / 100 }));
+}
+
+/**
+ * planSettlements on balances adjusted by the group's options, with the
+ * per-person cap applied to the result, transfers under the minimum dropped
+ * and whatever is left unsettled reported as residue.
+ */
+export function planAdjustedSettlements(
+    balances: BalanceEntity[],
+    options: SettlementOptions,
+    algorithm: SettlementAlgorithm = "exact"
+): AdjustedSettlementPlan {
+    const plan = planSettlements(adjustBalances(balances, options), algorithm);
+    const capped = options.maxTransfersPerPerson
+        ? capTransfers(plan.transactions, options.maxTransfersPerPerson)
+        : plan.transactions;
+    const transactions = capped.filter((t) => Math.round(t.amount * 100) >= options.minTransfer);
+    return { algorithm: plan.algorithm, transactions, residue: settlementResidue(balances, transactions) };
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { computeSplits, itemizedShares, itemizedTotal } from "@/lib/splits";
+
+const sum = (splits: { amount: number }[]) => splits.reduce((total, s) => total + s.amount, 0);
+
+describe("computeSplits", () => {
+    it("splits EQUAL expenses across members and gives leftover paise in userId order", () => {
+        const splits = computeSplits({ splitType: "EQUAL", amount: 10000, memberIds: ["c", "a", "b"], splits: [] });
+
+        expect(splits).toEqual([
+            { userId: "a", amount: 3334 },
+            { userId: "b", amount: 3333 },
+            { userId: "c", amount: 3333 },
+        ]);
+    });
+
+    it("splits EQUAL expenses only between listed members", () => {
+        const splits = computeSplits({ splitType: "EQUAL", amount: 10000, memberIds: ["a", "b", "c"], splits: [{ userId: "c" }, { userId: "a" }] });
+
+        expect(splits).toEqual([
+            { userId: "a", amount: 5000 },
+            { userId: "c", amount: 5000 },
+        ]);
+    });
+
+    it("converts EXACT amounts to paise", () => {
+        const splits = computeSplits({
+            splitType: "EXACT",
+            amount: 5000,
+            memberIds: [],
+            splits: [{ userId: "a", amount: "20.50" }, { userId: "b", amount: 29.5 }],
+        });
+
+        expect(splits).toEqual([
+            { userId: "a", amount: 2050 },
+            { userId: "b", amount: 2950 },
+        ]);
+    });
+
+    it("makes PERCENT splits add up to the expense total", () => {
+        const splits = computeSplits({
+            splitType: "PERCENT",
+            amount: 10000,
+            memberIds: [],
+            splits: [
+                { userId: "b", percent: 33.33 },
+                { userId: "a", percent: 33.33 },
+                { userId: "c", percent: 33.34 },
+            ],
+        });
+
+        expect(sum(splits)).toBe(10000);
+        expect(splits.map((s) => s.userId)).toEqual(["a", "b", "c"]);
+    });
+
+    it("weights SHARES splits by each member's share count", () => {
+        const splits = computeSplits({
+            splitType: "SHARES",
+            amount: 1000000,
+            memberIds: [],
+            splits: [
+                { userId: "a", shares: 3 },
+                { userId: "b", shares: 2 },
+                { userId: "c", shares: "1" },
+            ],
+        });
+
+        expect(splits).toEqual([
+            { userId: "a", amount: 500000 },
+            { userId: "b", amount: 333333 },
+            { userId: "c", amount: 166667 },
+        ]);
+        expect(sum(splits)).toBe(1000000);
+    });
+
+    it("applies ADJUSTMENT on top of an equal split of the remainder", () => {
+        // ₹1000 groceries, Alice +₹200: the other ₹800 is split three ways
+        const splits = computeSplits({
+            splitType: "ADJUSTMENT",
+            amount: 100000,
+            memberIds: ["a", "b", "c"],
+            splits: [{ userId: "a", adjustment: 200 }],
+        });
+
+        expect(splits).toEqual([
+            { userId: "a", amount: 46667 },
+            { userId: "b", amount: 26667 },
+            { userId: "c", amount: 26666 },
+        ]);
+        expect(sum(splits)).toBe(100000);
+    });
+
+    it("supports negative adjustments", () => {
+        const splits = computeSplits({
+            splitType: "ADJUSTMENT",
+            amount: 30000,
+            memberIds: ["b", "a"],
+            splits: [{ userId: "a", adjustment: -50 }],
+        });
+
+        expect(splits).toEqual([
+            { userId: "a", amount: 12500 },
+            { userId: "b", amount: 17500 },
+        ]);
+    });
+});
+
+describe("itemizedShares", () => {
+    const receipt = {
+        items: [
+            { description: "Pizza", amount: 60000, userIds: ["a", "b"] },
+            { description: "Beer", amount: 30000, userIds: ["b"] },
+            { description: "Salad", amount: 10000, userIds: ["c"] },
+        ],
+        taxAmount: 5000,
+        serviceCharge: 10000,
+        tipAmount: 1000,
+    };
+
+    it("spreads tax, service charge and tip in proportion to item subtotals", () => {
+        expect(itemizedShares(receipt)).toEqual([
+            { userId: "a", subtotal: 30000, tax: 1500, serviceCharge: 3000, tip: 300, total: 34800 },
+            { userId: "b", subtotal: 60000, tax: 3000, serviceCharge: 6000, tip: 600, total: 69600 },
+            { userId: "c", subtotal: 10000, tax: 500, serviceCharge: 1000, tip: 100, total: 11600 },
+        ]);
+    });
+
+    it("produces ITEMIZED splits that add up to the receipt total", () => {
+        const splits = computeSplits({ splitType: "ITEMIZED", amount: itemizedTotal(receipt), memberIds: [], splits: [], itemized: receipt });
+
+        expect(itemizedTotal(receipt)).toBe(116000);
+        expect(sum(splits)).toBe(116000);
+    });
+});
@@ -0,0 +1,144 @@
+import { allocate, toMinor } from "@/lib/money";
+
+export const SPLIT_TYPES = ["EQUAL", "EXACT", "PERCENT", "SHARES", "ADJUSTMENT", "ITEMIZED"];
+
+/** How far from 100 a PERCENT split's percentages may add up to, in percentage points. */
+export const PERCENT_TOLERANCE = 0.0001;
+
+export interface ComputedSplit {
+    userId: string;
+    amount: number;
+}
+
+export interface SplitInput {
+    userId: string;
+    amount?: string | number;
+    percent?: string | number;
+    shares?: string | number;
+    /** Signed, in major units: added to (or taken off) this member's equal share. */
+    adjustment?: string | number;
+}
+
+/** A receipt line in minor units, shared equally by the listed members. */
+export interface ItemInput {
+    description: string;
+    amount: number;
+    userIds: string[];
+}
+
+/** An itemized receipt in minor units. */
+export interface ItemizedInput {
+    items: ItemInput[];
+    taxAmount: number;
+    serviceCharge: number;
+    tipAmount: number;
+}
+
+export interface ItemizedShare {
+    userId: string;
+    subtotal: number;
+    tax: number;
+    serviceCharge: number;
+    tip: number;
+    total: number;
+}
+
+export interface ComputeSplitsInput {
+    splitType: string;
+    /** Expense total in minor units. */
+    amount: number;
+    /** Group members, used by EQUAL (when no splits are listed) and ADJUSTMENT splits. */
+    memberIds: string[];
+    splits: SplitInput[];
+    /** Receipt lines, used by ITEMIZED splits. */
+    itemized?: ItemizedInput;
+}
+
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Turns an expense's split configuration into ExpenseSplit rows in minor units.
+ * Leftover paise from EQUAL, PERCENT, SHARES, ADJUSTMENT and ITEMIZED splits go to
+ * participants in userId order, so ₹100 between three people is always
+ * 33.34 / 33.33 / 33.33.
+ */
+export function computeSplits({ splitType, amount, memberIds, splits, itemized }: ComputeSplitsInput): ComputedSplit[] {
+    if (splitType === "EQUAL") {
+        // Listing splits narrows an equal split down to just those members
+        const participants = [...(splits.length > 0 ? splits.map((s) => s.userId) : memberIds)].sort(compareIds);
+        const parts = allocate(amount, participants.map(() => 1));
+        return participants.map((userId, i) => ({ userId, amount: parts[i] }));
+    }
+
+    if (splitType === "EXACT") {
+        return splits.map((s) => ({ userId: s.userId, amount: toMinor(s.amount ?? 0) }));
+    }
+
+    if (splitType === "PERCENT") {
+        const participants = [...splits].sort((a, b) => compareIds(a.userId, b.userId));
+        const percents = participants.map((s) => Number(s.percent ?? 0));
+        const totalPercent = percents.reduce((sum, p) => sum + p, 0);
+        const parts = allocate(Math.round((amount * totalPercent) / 100), percents);
+        return participants.map((s, i) => ({ userId: s.userId, amount: parts[i] }));
+    }
+
+    if (splitType === "SHARES") {
+        const participants = [...splits].sort((a, b) => compareIds(a.userId, b.userId));
+        const parts = allocate(amount, participants.map((s) => Number(s.shares ?? 0)));
+        return participants.map((s, i) => ({ userId: s.userId, amount: parts[i] }));
+    }
+
+    if (splitType === "ADJUSTMENT") {
+        // Everyone in the group takes part; splits only need to list members with an adjustment.
+        // Take the adjustments off the top, split the rest equally, then add them back.
+        const participants = [...new Set([...memberIds, ...splits.map((s) => s.userId)])].sort(compareIds);
+        const adjustments = participants.map((userId) =>
+            splits.filter((s) => s.userId === userId).reduce((sum, s) => sum + toMinor(s.adjustment ?? 0), 0)
+        );
+        const adjustmentTotal = adjustments.reduce((sum, a) => sum + a, 0);
+        const parts = allocate(amount - adjustmentTotal, participants.map(() => 1));
+        return participants.map((userId, i) => ({ userId, amount: parts[i] + adjustments[i] }));
+    }
+
+    if (splitType === "ITEMIZED" && itemized) {
+        return itemizedShares(itemized).map((share) => ({ userId: share.userId, amount: share.total }));
+    }
+
+    return [];
+}
+
+export function itemizedTotal({ items, taxAmount, serviceCharge, tipAmount }: ItemizedInput): number {
+    return items.reduce((sum, item) => sum + item.amount, 0) + taxAmount + serviceCharge + tipAmount;
+}
+
+/**
+ * Works out what each person owes on an itemized receipt. Every item is split
+ * equally between the members assigned to it; tax, service charge and tip are
+ * then spread in proportion to each member's item subtotal.
+ */
+export function itemizedShares({ items, taxAmount, serviceCharge, tipAmount }: ItemizedInput): ItemizedShare[] {
+    const subtotals: Record<string, number> = {};
+
+    for (const item of items) {
+        const participants = [...new Set(item.userIds)].sort(compareIds);
+        const parts = allocate(item.amount, participants.map(() => 1));
+        participants.forEach((userId, i) => {
+            subtotals[userId] = (subtotals[userId] ?? 0) + parts[i];
+        });
+    }
+
+    const userIds = Object.keys(subtotals).sort(compareIds);
+    const weights = userIds.map((userId) => subtotals[userId]);
+    const taxParts = allocate(taxAmount, weights);
+    const serviceParts = allocate(serviceCharge, weights);
+    const tipParts = allocate(tipAmount, weights);
+
+    return userIds.map((userId, i) => ({
+        userId,
+        subtotal: subtotals[userId],
+        tax: taxParts[i],
+        serviceCharge: serviceParts[i],
+        tip: tipParts[i],
+        total: subtotals[userId] + taxParts[i] + serviceParts[i] + tipParts[i],
+    }));
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseUpiId, parseUpiReference, upiPayLink } from "@/lib/upi";
+
+describe("upiPayLink", () => {
+    it("fills in the payee, amount in rupees and note", () => {
+        expect(upiPayLink({ upiId: "asha@okbank", payeeName: "Asha K", amount: 125050, note: "Goa Trip & co" }))
+            .toBe("upi://pay?pa=asha%40okbank&pn=Asha%20K&am=1250.50&cu=INR&tn=Goa%20Trip%20%26%20co");
+    });
+
+    it("cuts long notes short", () => {
+        const link = upiPayLink({ upiId: "asha@okbank", payeeName: "Asha", amount: 100, note: "x".repeat(80) });
+        expect(link.endsWith(`tn=${"x".repeat(50)}`)).toBe(true);
+    });
+});
+
+describe("parseUpiId", () => {
+    it("accepts name@bank and clears with empty values", () => {
+        expect(parseUpiId(" asha.k-1@okhdfcbank ")).toEqual({ upiId: "asha.k-1@okhdfcbank" });
+        expect(parseUpiId("")).toEqual({ upiId: null });
+        expect(parseUpiId("not a upi id")).toHaveProperty("error");
+    });
+});
+
+describe("parseUpiReference", () => {
+    it("is optional but has to look like a reference", () => {
+        expect(parseUpiReference(undefined)).toEqual({ upiReference: null });
+        expect(parseUpiReference("412345678901")).toEqual({ upiReference: "412345678901" });
+        expect(parseUpiReference("12 34")).toHaveProperty("error");
+    });
+});
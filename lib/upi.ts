@@ -0,0 +1,52 @@
+import { fromMinor } from "@/lib/money";
+
+/** UPI only moves rupees. */
+export const UPI_CURRENCY = "INR";
+
+/** How long a payment note can be before UPI apps start cutting it off. */
+export const MAX_UPI_NOTE_LENGTH = 50;
+
+const UPI_ID_PATTERN = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$/;
+const UPI_REFERENCE_PATTERN = /^[a-zA-Z0-9]{6,35}$/;
+
+/** Reads a UPI ID (`name@bank`); empty strings and null clear it. */
+export function parseUpiId(value: unknown): { upiId: string | null } | { error: string } {
+    if (value === null || (typeof value === "string" && !value.trim())) return { upiId: null };
+    if (typeof value !== "string" || !UPI_ID_PATTERN.test(value.trim())) {
+        return { error: "upiId must look like name@bank" };
+    }
+    return { upiId: value.trim() };
+}
+
+/** Reads the transaction reference (UTR) a UPI app shows after paying; it's optional. */
+export function parseUpiReference(value: unknown): { upiReference: string | null } | { error: string } {
+    if (value === undefined || value === null || value === "") return { upiReference: null };
+    if (typeof value !== "string" || !UPI_REFERENCE_PATTERN.test(value.trim())) {
+        return { error: "upiReference must be 6 to 35 letters or digits" };
+    }
+    return { upiReference: value.trim() };
+}
+
+export interface UpiPayment {
+    upiId: string;
+    payeeName: string;
+    /** Minor units. */
+    amount: number;
+    note: string;
+}
+
+/**
+ * The `upi://pay` deep link that opens any UPI app with the payee, amount and
+ * note filled in. Values are percent-encoded, since some apps don't read `+`
+ * as a space.
+ */
+export function upiPayLink({ upiId, payeeName, amount, note }: UpiPayment): string {
+    const params: [string, string][] = [
+        ["pa", upiId],
+        ["pn", payeeName],
+        ["am", fromMinor(amount).toFixed(2)],
+        ["cu", UPI_CURRENCY],
+        ["tn", note.slice(0, MAX_UPI_NOTE_LENGTH)],
+    ];
+    return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join("&")}`;
+}
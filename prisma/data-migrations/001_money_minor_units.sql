@@ -0,0 +1,38 @@
+-- Converts stored amounts from rupees (DOUBLE PRECISION) to integer paise.
+-- Run once against an existing database BEFORE `npx prisma db push`:
+--   npx prisma db execute --file prisma/data-migrations/001_money_minor_units.sql
+
+BEGIN;
+
+ALTER TABLE "Expense" ALTER COLUMN "amount" TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
+ALTER TABLE "ExpenseSplit" ALTER COLUMN "amount" TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
+ALTER TABLE "Settlement" ALTER COLUMN "amount" TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
+
+-- Rounding every split on its own can leave a few paise unaccounted for
+-- (₹100 split three ways becomes 3333 + 3333 + 3333). Hand the difference out
+-- one paisa at a time in userId order, the same rule new EQUAL splits use.
+-- Only rounding drift (at most one paisa per split) is repaired here; splits
+-- that were wrong to begin with are left alone so they can still be spotted.
+WITH drift AS (
+    SELECT e."id" AS "expenseId", e."amount" - SUM(s."amount") AS "diff"
+    FROM "Expense" e
+    JOIN "ExpenseSplit" s ON s."expenseId" = e."id"
+    GROUP BY e."id", e."amount"
+    HAVING e."amount" <> SUM(s."amount")
+       AND ABS(e."amount" - SUM(s."amount")) <= COUNT(*)
+),
+ranked AS (
+    SELECT
+        s."id",
+        d."diff",
+        ROW_NUMBER() OVER (PARTITION BY s."expenseId" ORDER BY s."userId") AS "position"
+    FROM "ExpenseSplit" s
+    JOIN drift d ON d."expenseId" = s."expenseId"
+)
+UPDATE "ExpenseSplit" s
+SET "amount" = s."amount" + SIGN(r."diff")::INTEGER
+FROM ranked r
+WHERE r."id" = s."id"
+  AND r."position" <= ABS(r."diff");
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Gives every existing group an owner once GroupMember.role exists.
+-- Run once against an existing database AFTER `npx prisma db push`:
+--   npx prisma db execute --file prisma/data-migrations/002_group_owners.sql
+
+BEGIN;
+
+-- Memberships carry no join date, so the longest-standing user in each group
+-- (by account creation) stands in for its creator. Everyone else stays MEMBER.
+WITH first_members AS (
+    SELECT DISTINCT ON (m."groupId") m."id"
+    FROM "GroupMember" m
+    JOIN "User" u ON u."id" = m."userId"
+    WHERE NOT EXISTS (
+        SELECT 1 FROM "GroupMember" o WHERE o."groupId" = m."groupId" AND o."role" = 'OWNER'
+    )
+    ORDER BY m."groupId", u."createdAt", u."id"
+)
+UPDATE "GroupMember" SET "role" = 'OWNER' WHERE "id" IN (SELECT "id" FROM first_members);
+
+COMMIT;
@@ -0,0 +1,12 @@
+-- Turns members added before sign-up existed into placeholders. They were
+-- given made-up name@yoursplit.local addresses; placeholders have no email.
+-- Run once against an existing database AFTER `npx prisma db push`:
+--   npx prisma db execute --file prisma/data-migrations/003_placeholder_members.sql
+
+BEGIN;
+
+UPDATE "User"
+SET "email" = NULL, "placeholder" = TRUE
+WHERE "email" LIKE '%@yoursplit.local' AND "authId" IS NULL;
+
+COMMIT;
@@ -0,0 +1,38 @@
+-- Moves exchange rates into groups and fixes each expense's rate.
+-- Run once against an existing database BEFORE `npx prisma db push`:
+--   npx prisma db execute --file prisma/data-migrations/004_group_exchange_rates.sql
+
+BEGIN;
+
+-- Save the rate every foreign-currency expense has been converted with so far:
+-- the latest one effective on the day it was added, else the earliest one,
+-- read in either direction.
+ALTER TABLE "Expense" ADD COLUMN IF NOT EXISTS "exchangeRate" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+UPDATE "Expense" e
+SET "exchangeRate" = COALESCE((
+    SELECT CASE WHEN x."fromCurrency" = e."currency" THEN x."rate" ELSE 1 / x."rate" END
+    FROM "ExchangeRate" x
+    JOIN "Group" g ON g."id" = e."groupId"
+    WHERE (x."fromCurrency" = e."currency" AND x."toCurrency" = g."baseCurrency")
+       OR (x."fromCurrency" = g."baseCurrency" AND x."toCurrency" = e."currency")
+    ORDER BY
+        (x."effectiveDate" <= e."createdAt") DESC,
+        CASE WHEN x."effectiveDate" <= e."createdAt" THEN x."effectiveDate" END DESC,
+        x."effectiveDate" ASC
+    LIMIT 1
+), 1)
+WHERE e."currency" <> (SELECT g."baseCurrency" FROM "Group" g WHERE g."id" = e."groupId");
+
+-- Every group gets its own copy of the shared rates that touch its base currency
+ALTER TABLE "ExchangeRate" ADD COLUMN IF NOT EXISTS "groupId" TEXT;
+
+INSERT INTO "ExchangeRate" ("id", "fromCurrency", "toCurrency", "rate", "effectiveDate", "createdAt", "groupId")
+SELECT gen_random_uuid()::TEXT, x."fromCurrency", x."toCurrency", x."rate", x."effectiveDate", x."createdAt", g."id"
+FROM "ExchangeRate" x
+JOIN "Group" g ON g."baseCurrency" IN (x."fromCurrency", x."toCurrency")
+WHERE x."groupId" IS NULL;
+
+DELETE FROM "ExchangeRate" WHERE "groupId" IS NULL;
+
+COMMIT;
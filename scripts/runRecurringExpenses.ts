@@ -0,0 +1,33 @@
+/**
+ * Creates the expenses for every recurring expense (rent, wifi, …) that has come due.
+ * Safe to run as often as you like; schedule it daily with cron or similar.
+ *
+ * Usage:
+ *   npx tsx scripts/runRecurringExpenses.ts
+ */
+
+import { prisma } from "@/lib/prisma";
+import { runDueRecurringExpenses } from "@/lib/recurringExpenses";
+
+async function main() {
+    const results = await runDueRecurringExpenses();
+
+    if (results.length === 0) {
+        console.log("No recurring expenses due.");
+    }
+    for (const result of results) {
+        if (result.error) {
+            console.error(`❌ ${result.description}: skipped — ${result.error}`);
+        } else {
+            console.log(`✅ ${result.description}: ${result.created} expense(s) created`);
+        }
+    }
+
+    await prisma.$disconnect();
+    process.exit(results.some((r) => r.error) ? 1 : 0);
+}
+
+main().catch((err) => {
+    console.error("Fatal error:", err);
+    process.exit(1);
+});